@@ -0,0 +1,11 @@
+// Runtime configuration, loaded before the app bundle. Replace this file at
+// deploy time to change environment profiles without rebuilding, e.g.:
+//
+// window.__INGEST_FLOW_CONFIG__ = {
+//   defaultEnvironment: 'staging',
+//   environments: [
+//     { id: 'staging', label: 'Staging', baseUrl: 'https://ingest.staging.internal', color: '#eab308' },
+//     { id: 'production', label: 'Production', baseUrl: 'https://ingest.internal', color: '#ef4444', isProduction: true },
+//   ],
+// };
+window.__INGEST_FLOW_CONFIG__ = window.__INGEST_FLOW_CONFIG__ || {};
@@ -0,0 +1,37 @@
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
+import { LogIn, LogOut, User } from 'lucide-react';
+
+const AccountMenu = () => {
+  const { session, signOut } = useAuth();
+
+  if (!session) {
+    return (
+      <Button asChild variant="outline" className="border-white/20 bg-white/5 text-white hover:bg-white/10">
+        <Link to="/login">
+          <LogIn className="mr-2 h-4 w-4" />
+          Sign in
+        </Link>
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 rounded-md border border-white/20 bg-white/5 pl-3 h-10 text-sm text-white">
+      <User className="h-4 w-4 text-slate-300" />
+      <span className="max-w-[180px] truncate" title={session.user}>{session.user}</span>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={signOut}
+        aria-label="Sign out"
+        className="text-slate-300 hover:bg-white/10 hover:text-white"
+      >
+        <LogOut className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+export default AccountMenu;
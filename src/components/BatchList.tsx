@@ -0,0 +1,43 @@
+import { Badge } from '@/components/ui/badge';
+import StatusBadge from '@/components/StatusBadge';
+import type { Batch } from '@/lib/api';
+
+interface BatchListProps {
+  batches: Batch[];
+}
+
+const BatchList = ({ batches }: BatchListProps) => (
+  <div className="space-y-4">
+    {batches.map((batch, index) => (
+      <div
+        key={batch.batch_id}
+        className="bg-white/5 rounded-lg p-4 border border-white/10 hover:bg-white/10 transition-all duration-200"
+      >
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-3">
+            <div className="text-lg font-bold text-white">
+              Batch {index + 1}
+            </div>
+            <StatusBadge status={batch.status} />
+          </div>
+          <span className="text-slate-400 text-sm font-mono">
+            {batch.batch_id}
+          </span>
+        </div>
+
+        <div>
+          <p className="text-slate-400 text-sm mb-2">Processing IDs:</p>
+          <div className="flex flex-wrap gap-2">
+            {batch.ids.map(id => (
+              <Badge key={id} variant="outline" className="border-white/20 text-white">
+                {id}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+export default BatchList;
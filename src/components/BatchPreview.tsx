@@ -0,0 +1,148 @@
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import BatchList from '@/components/BatchList';
+import { useQueueSnapshot } from '@/hooks/use-queue-snapshot';
+import {
+  DEFAULT_BATCH_DURATION_MS,
+  DEFAULT_BATCH_SIZE,
+  previewSubmission,
+  type PreviewJob,
+} from '@/lib/batch-preview';
+import { Info, Loader2, RefreshCw } from 'lucide-react';
+
+interface BatchPreviewProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** In the order they would be submitted. */
+  jobs: PreviewJob[];
+  /** Set for scheduled jobs; the queue at that time is unknown, so it is treated as empty. */
+  scheduledFor: Date | null;
+  submitLabel: string;
+  submitDisabled?: boolean;
+  onSubmit: () => void;
+}
+
+const formatEstimate = (date: Date) =>
+  date.toDateString() === new Date().toDateString() ? format(date, 'HH:mm:ss') : format(date, 'd MMM HH:mm');
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+/** Dry run of a submission: its batches and estimated timing, computed locally from the backend's queue. */
+const BatchPreview = ({ open, onOpenChange, jobs, scheduledFor, submitLabel, submitDisabled, onSubmit }: BatchPreviewProps) => {
+  const { queue, isLoading, isFetching, dataUpdatedAt, refetch } = useQueueSnapshot(open);
+  // What the queue will look like at a scheduled time can't be known; only its batching is used
+  const idleQueue = queue && { ...queue, queuedBatches: { HIGH: 0, MEDIUM: 0, LOW: 0 }, busyUntil: null };
+  const preview = scheduledFor
+    ? previewSubmission(jobs, idleQueue, scheduledFor.getTime())
+    : previewSubmission(jobs, queue, dataUpdatedAt || Date.now());
+  const batchCount = preview.jobs.reduce((total, job) => total + job.batches.length, 0);
+  const priorities = [...new Set(jobs.map(job => job.priority))];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-900 border-white/20 text-white max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Submission Preview</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Nothing has been sent yet. This is how the backend will batch the job and roughly when it will run.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-slate-300">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Reading the queue…
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+              <div className="bg-white/5 rounded-lg p-4">
+                <p className="text-slate-400 text-sm">Batches</p>
+                <p className="text-white font-bold text-lg">{batchCount}</p>
+              </div>
+              <div className="bg-white/5 rounded-lg p-4">
+                <p className="text-slate-400 text-sm">
+                  Queued ahead{priorities.length === 1 && ` (${priorities[0]})`}
+                </p>
+                <p className="text-white font-bold text-lg">{scheduledFor ? 'Unknown' : (preview.batchesAhead ?? 'Unknown')}</p>
+              </div>
+              <div className="bg-white/5 rounded-lg p-4">
+                <p className="text-slate-400 text-sm">Estimated start</p>
+                <p className="text-white font-mono text-lg">{formatEstimate(preview.startsAt)}</p>
+              </div>
+              <div className="bg-white/5 rounded-lg p-4">
+                <p className="text-slate-400 text-sm">Estimated finish</p>
+                <p className="text-white font-mono text-lg">{formatEstimate(preview.finishesAt)}</p>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-slate-400 flex items-center gap-2">
+                <Info className="h-4 w-4" />
+                {scheduledFor
+                  ? `Scheduled for ${format(scheduledFor, 'd MMM HH:mm')}. The queue at that time can't be known, so the estimate assumes it is empty.`
+                  : queue
+                  ? `${preview.batchSize} IDs per batch, about ${formatDuration(preview.finishesAt.getTime() - preview.startsAt.getTime())} of processing. Higher-priority jobs submitted meanwhile will push this back.`
+                  : `This backend doesn't report its queue, so the estimate assumes it is empty and uses the default of ${DEFAULT_BATCH_SIZE} IDs per ${DEFAULT_BATCH_DURATION_MS / 1000}s batch.`}
+              </span>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                disabled={isFetching}
+                onClick={() => refetch()}
+                className="h-8 shrink-0 text-slate-300 hover:bg-white/10 hover:text-white"
+              >
+                <RefreshCw className={`mr-1 h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            </div>
+
+            {preview.jobs.map((job, index) => (
+              <div key={index} className="space-y-2">
+                {preview.jobs.length > 1 && (
+                  <p className="text-sm text-slate-300">
+                    Job {index + 1} of {preview.jobs.length} · {job.priority} · {formatEstimate(job.startsAt)} –{' '}
+                    {formatEstimate(job.finishesAt)}
+                  </p>
+                )}
+                <BatchList batches={job.batches} />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="border-white/20 bg-transparent text-white hover:bg-white/10"
+          >
+            Back to Form
+          </Button>
+          <Button
+            type="button"
+            disabled={submitDisabled}
+            onClick={() => {
+              onOpenChange(false);
+              onSubmit();
+            }}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {submitLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BatchPreview;
@@ -0,0 +1,37 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useConnectionHealth } from '@/hooks/use-connection-health';
+import { useCountdown } from '@/hooks/use-countdown';
+import type { ConnectionHealth } from '@/lib/circuit-breaker';
+
+const HEALTH_STYLES: Record<ConnectionHealth, { label: string; dot: string }> = {
+  healthy: { label: 'Healthy', dot: 'bg-green-500' },
+  degraded: { label: 'Degraded', dot: 'bg-yellow-500' },
+  offline: { label: 'Offline', dot: 'bg-red-500' },
+};
+
+const ConnectionHealthIndicator = () => {
+  const { health, consecutiveFailures, retryAt } = useConnectionHealth();
+  const retryIn = useCountdown(retryAt);
+  const { label, dot } = HEALTH_STYLES[health];
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div
+          role="status"
+          className="flex items-center gap-2 rounded-md border border-white/20 bg-white/5 px-3 h-10 text-sm text-white"
+        >
+          <span className={`h-2 w-2 rounded-full ${dot} ${health !== 'healthy' ? 'animate-pulse' : ''}`} />
+          <span>{label}</span>
+        </div>
+      </TooltipTrigger>
+      <TooltipContent>
+        {health === 'healthy' && 'Backend is responding normally'}
+        {health === 'degraded' && `${consecutiveFailures} recent request(s) failed; retrying with backoff`}
+        {health === 'offline' && (retryIn > 0 ? `Backend unreachable; next attempt in ${retryIn}s` : 'Backend unreachable; trying again')}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default ConnectionHealthIndicator;
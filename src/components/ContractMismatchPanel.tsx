@@ -0,0 +1,55 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import type { ContractMismatchError } from '@/lib/api';
+import { FileWarning } from 'lucide-react';
+
+interface ContractMismatchPanelProps {
+  error: ContractMismatchError;
+}
+
+const formatPayload = (payload: unknown) => {
+  if (typeof payload === 'string') return payload;
+  try {
+    return JSON.stringify(payload, null, 2);
+  } catch {
+    return String(payload);
+  }
+};
+
+const ContractMismatchPanel = ({ error }: ContractMismatchPanelProps) => (
+  <Card className="bg-orange-500/10 backdrop-blur-md border border-orange-500/30 shadow-2xl">
+    <CardHeader>
+      <div className="flex items-center gap-2">
+        <FileWarning className="h-5 w-5 text-orange-400" />
+        <CardTitle className="text-xl text-white">Unexpected Response Format</CardTitle>
+      </div>
+      <CardDescription className="text-slate-300">
+        <span className="font-mono">{error.endpoint}</span> returned data the dashboard doesn't understand.
+        The backend contract may have changed.
+      </CardDescription>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      <div>
+        <h4 className="text-orange-300 font-medium mb-2">Offending fields</h4>
+        <ul className="space-y-1">
+          {error.issues.map((issue, index) => (
+            <li key={index} className="flex items-center gap-2 text-sm">
+              <Badge variant="outline" className="border-orange-400/40 text-orange-200 font-mono">
+                {issue.path}
+              </Badge>
+              <span className="text-slate-200">{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div>
+        <h4 className="text-orange-300 font-medium mb-2">Raw payload</h4>
+        <pre className="bg-slate-950/60 rounded-lg p-3 text-xs text-slate-200 overflow-auto max-h-80">
+          {formatPayload(error.payload)}
+        </pre>
+      </div>
+    </CardContent>
+  </Card>
+);
+
+export default ContractMismatchPanel;
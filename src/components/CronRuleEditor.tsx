@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  buildCron,
+  CronParseError,
+  DEFAULT_CRON_RULE,
+  nextCronRuns,
+  parseCron,
+  ruleFromCron,
+  WEEKDAY_NAMES,
+  type CronFrequency,
+  type CronRule,
+} from '@/lib/cron';
+import { AlertCircle } from 'lucide-react';
+
+interface CronRuleEditorProps {
+  value: string;
+  onChange: (cron: string) => void;
+}
+
+const PREVIEW_COUNT = 5;
+
+const FREQUENCIES: { value: CronFrequency; label: string }[] = [
+  { value: 'hourly', label: 'Every hour' },
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekly', label: 'Every week' },
+  { value: 'monthly', label: 'Every month' },
+];
+
+const previewRuns = (cron: string): { runs: Date[]; error: string | null } => {
+  try {
+    return { runs: nextCronRuns(parseCron(cron), new Date(), PREVIEW_COUNT), error: null };
+  } catch (error) {
+    return { runs: [], error: error instanceof CronParseError ? error.message : 'Invalid cron expression' };
+  }
+};
+
+/** A friendly builder for common rules, or a raw cron expression, with the next few run times. */
+const CronRuleEditor = ({ value, onChange }: CronRuleEditorProps) => {
+  const [mode, setMode] = useState<'builder' | 'cron'>(() => (ruleFromCron(value) ? 'builder' : 'cron'));
+  const rule = ruleFromCron(value) ?? DEFAULT_CRON_RULE;
+  const { runs, error } = previewRuns(value);
+
+  const setRule = (changes: Partial<CronRule>) => onChange(buildCron({ ...rule, ...changes }));
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = rule.weekdays.includes(day) ? rule.weekdays.filter(other => other !== day) : [...rule.weekdays, day];
+    // An empty list would turn the rule into "every day"
+    if (weekdays.length > 0) setRule({ weekdays });
+  };
+
+  const modeButton = (target: 'builder' | 'cron', label: string) => (
+    <Button
+      type="button"
+      size="sm"
+      variant={mode === target ? 'default' : 'ghost'}
+      onClick={() => {
+        // Expressions the builder can't show are replaced by its default rule
+        if (target === 'builder' && !ruleFromCron(value)) onChange(buildCron(DEFAULT_CRON_RULE));
+        setMode(target);
+      }}
+      className={`h-7 ${mode === target ? 'bg-blue-600 hover:bg-blue-700' : 'text-white hover:bg-white/10'}`}
+    >
+      {label}
+    </Button>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="inline-flex gap-1 bg-white/5 rounded-lg p-1 border border-white/10">
+        {modeButton('builder', 'Builder')}
+        {modeButton('cron', 'Cron expression')}
+      </div>
+
+      {mode === 'builder' ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={rule.frequency} onValueChange={(frequency) => setRule({ frequency: frequency as CronFrequency })}>
+            <SelectTrigger className="w-[150px] bg-white/5 border-white/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              {FREQUENCIES.map(frequency => (
+                <SelectItem key={frequency.value} value={frequency.value} className="text-white hover:bg-slate-700">
+                  {frequency.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {rule.frequency === 'monthly' && (
+            <>
+              <span className="text-sm text-slate-300">on day</span>
+              <Input
+                type="number"
+                aria-label="Day of month"
+                min={1}
+                max={31}
+                value={rule.dayOfMonth}
+                onChange={(e) => {
+                  const day = Number(e.target.value);
+                  if (Number.isInteger(day) && day >= 1 && day <= 31) setRule({ dayOfMonth: day });
+                }}
+                className="w-[80px] bg-white/5 border-white/20 text-white"
+              />
+            </>
+          )}
+          {rule.frequency === 'hourly' ? (
+            <>
+              <span className="text-sm text-slate-300">at minute</span>
+              <Input
+                type="number"
+                aria-label="Minute"
+                min={0}
+                max={59}
+                value={rule.minute}
+                onChange={(e) => {
+                  const minute = Number(e.target.value);
+                  if (Number.isInteger(minute) && minute >= 0 && minute <= 59) setRule({ minute });
+                }}
+                className="w-[80px] bg-white/5 border-white/20 text-white"
+              />
+            </>
+          ) : (
+            <>
+              <span className="text-sm text-slate-300">at</span>
+              <Input
+                type="time"
+                aria-label="Time"
+                value={`${String(rule.hour).padStart(2, '0')}:${String(rule.minute).padStart(2, '0')}`}
+                onChange={(e) => {
+                  if (!e.target.value) return;
+                  const [hour, minute] = e.target.value.split(':').map(Number);
+                  setRule({ hour, minute });
+                }}
+                className="w-[120px] bg-white/5 border-white/20 text-white"
+              />
+            </>
+          )}
+          {rule.frequency === 'weekly' && (
+            <div className="flex flex-wrap gap-1 w-full">
+              {WEEKDAY_NAMES.map((name, day) => (
+                <Button
+                  key={name}
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  aria-pressed={rule.weekdays.includes(day)}
+                  onClick={() => toggleWeekday(day)}
+                  className={`h-8 w-12 border-white/20 ${
+                    rule.weekdays.includes(day)
+                      ? 'bg-blue-600 text-white hover:bg-blue-700 hover:text-white'
+                      : 'bg-transparent text-slate-300 hover:bg-white/10 hover:text-white'
+                  }`}
+                >
+                  {name.charAt(0) + name.slice(1).toLowerCase()}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-1">
+          <Input
+            aria-label="Cron expression"
+            value={value}
+            placeholder="0 2 * * 1-5"
+            onChange={(e) => onChange(e.target.value)}
+            className="bg-white/5 border-white/20 text-white font-mono placeholder:text-slate-400"
+          />
+          <p className="text-xs text-slate-400">minute hour day-of-month month day-of-week, in your local time</p>
+        </div>
+      )}
+
+      {error ? (
+        <p className="text-sm text-red-300 flex items-center gap-2">
+          <AlertCircle className="h-4 w-4 text-red-400" />
+          {error}
+        </p>
+      ) : (
+        <div className="space-y-1">
+          <Label className="text-slate-300 text-sm">Next runs</Label>
+          {runs.length === 0 ? (
+            <p className="text-sm text-amber-400">This rule never fires.</p>
+          ) : (
+            <ul className="text-sm text-slate-300 font-mono space-y-0.5">
+              {runs.map(run => (
+                <li key={run.getTime()}>{format(run, 'EEE, d MMM yyyy HH:mm')}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CronRuleEditor;
@@ -0,0 +1,28 @@
+import { useCallback, useMemo, useState, type ReactNode } from 'react';
+import { EnvironmentContext } from '@/hooks/use-environment';
+import { loadEnvironments, resolveInitialEnvironment, storeEnvironmentId } from '@/lib/environments';
+
+interface EnvironmentProviderProps {
+  children: ReactNode;
+}
+
+const EnvironmentProvider = ({ children }: EnvironmentProviderProps) => {
+  const [environments] = useState(loadEnvironments);
+  const [environment, setCurrent] = useState(() => resolveInitialEnvironment(environments));
+
+  const setEnvironment = useCallback((id: string) => {
+    const next = environments.find(env => env.id === id);
+    if (!next) return;
+    storeEnvironmentId(next.id);
+    setCurrent(next);
+  }, [environments]);
+
+  const value = useMemo(
+    () => ({ environment, environments, setEnvironment }),
+    [environment, environments, setEnvironment],
+  );
+
+  return <EnvironmentContext.Provider value={value}>{children}</EnvironmentContext.Provider>;
+};
+
+export default EnvironmentProvider;
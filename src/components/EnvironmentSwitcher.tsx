@@ -0,0 +1,33 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useEnvironment } from '@/hooks/use-environment';
+import { Server } from 'lucide-react';
+
+const EnvironmentSwitcher = () => {
+  const { environment, environments, setEnvironment } = useEnvironment();
+
+  return (
+    <Select value={environment.id} onValueChange={setEnvironment}>
+      <SelectTrigger
+        aria-label="Backend environment"
+        className="w-[200px] bg-white/5 border-white/20 text-white"
+      >
+        <div className="flex items-center gap-2">
+          <Server className="h-4 w-4 text-slate-300" />
+          <SelectValue />
+        </div>
+      </SelectTrigger>
+      <SelectContent className="bg-slate-800 border-slate-700">
+        {environments.map(env => (
+          <SelectItem key={env.id} value={env.id} className="text-white hover:bg-slate-700">
+            <div className="flex items-center gap-2">
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: env.color }} />
+              <span>{env.label}</span>
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default EnvironmentSwitcher;
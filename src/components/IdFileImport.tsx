@@ -0,0 +1,186 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  MAX_ID_FILE_BYTES,
+  columnLabels,
+  extractIds,
+  guessIdColumn,
+  parseIdFile,
+  type ParsedIdFile,
+} from '@/lib/id-file-parser';
+import { FileUp, X } from 'lucide-react';
+
+interface IdFileImportProps {
+  onImport: (ids: number[]) => void;
+}
+
+const ACCEPTED_TYPES = '.csv,.tsv,.tab,.txt,.ndjson,.jsonl,text/csv,text/tab-separated-values,text/plain';
+const INVALID_PREVIEW_LIMIT = 5;
+
+const IdFileImport = ({ onImport }: IdFileImportProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedIdFile | null>(null);
+  const [hasHeader, setHasHeader] = useState(false);
+  const [column, setColumn] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFile = async (file: File) => {
+    setError(null);
+    if (file.size > MAX_ID_FILE_BYTES) {
+      setError(`${file.name} is larger than ${MAX_ID_FILE_BYTES / 1024 / 1024} MB`);
+      return;
+    }
+    try {
+      const result = parseIdFile(await file.text(), file.name);
+      if (result.rows.length === 0) {
+        setError(`${file.name} is empty`);
+        return;
+      }
+      setFileName(file.name);
+      setParsed(result);
+      setHasHeader(result.hasHeader);
+      setColumn(guessIdColumn(result));
+    } catch (readError) {
+      console.error('File import error:', readError);
+      setError(`Could not read ${file.name}`);
+    }
+  };
+
+  const reset = () => {
+    setParsed(null);
+    setFileName('');
+    setError(null);
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) loadFile(file);
+  };
+
+  const extraction = parsed ? extractIds(parsed, column, hasHeader) : null;
+  const labels = parsed ? columnLabels(parsed, hasHeader) : [];
+
+  return (
+    <div className="space-y-3">
+      {!parsed && (
+        <div
+          role="button"
+          tabIndex={0}
+          onClick={() => inputRef.current?.click()}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ' ') inputRef.current?.click();
+          }}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`flex items-center justify-center gap-2 rounded-lg border border-dashed p-4 text-sm cursor-pointer transition-colors ${
+            isDragging ? 'border-blue-400 bg-blue-500/10 text-blue-200' : 'border-white/20 text-slate-400 hover:bg-white/5'
+          }`}
+        >
+          <FileUp className="h-4 w-4" />
+          <span>Drop a CSV, TSV, NDJSON or text file here, or click to choose one</span>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={ACCEPTED_TYPES}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) loadFile(file);
+            }}
+          />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {parsed && extraction && (
+        <div className="bg-white/5 border border-white/10 rounded-lg p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-white font-medium">
+              {fileName} <span className="text-slate-400 font-normal uppercase">({parsed.format})</span>
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={reset}
+              aria-label="Discard file"
+              className="h-6 w-6 text-slate-400 hover:bg-white/10 hover:text-white"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {parsed.format !== 'text' && (
+            <div className="flex flex-wrap items-center gap-4">
+              {parsed.columnCount > 1 && (
+                <div className="flex items-center gap-2">
+                  <Label className="text-slate-300 text-sm">ID column</Label>
+                  <Select value={String(column)} onValueChange={(value) => setColumn(Number(value))}>
+                    <SelectTrigger className="h-8 w-[180px] bg-white/5 border-white/20 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700">
+                      {labels.map((label, index) => (
+                        <SelectItem key={index} value={String(index)} className="text-white hover:bg-slate-700">
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                <Switch id="file-has-header" checked={hasHeader} onCheckedChange={setHasHeader} />
+                <Label htmlFor="file-has-header" className="text-slate-300 text-sm">First row is a header</Label>
+              </div>
+            </div>
+          )}
+
+          <p className="text-sm text-slate-300">
+            {extraction.rowsRead} rows read · <span className="text-green-400">{extraction.ids.length} IDs</span>
+            {' · '}{extraction.skipped} skipped (empty)
+            {' · '}<span className={extraction.invalid.length ? 'text-red-400' : ''}>{extraction.invalid.length} invalid</span>
+          </p>
+          {extraction.invalid.length > 0 && (
+            <ul className="text-xs text-red-300 space-y-0.5">
+              {extraction.invalid.slice(0, INVALID_PREVIEW_LIMIT).map(({ row, value }) => (
+                <li key={row}>Row {row}: "{value}" is not a valid ID</li>
+              ))}
+              {extraction.invalid.length > INVALID_PREVIEW_LIMIT && (
+                <li>…and {extraction.invalid.length - INVALID_PREVIEW_LIMIT} more</li>
+              )}
+            </ul>
+          )}
+
+          <Button
+            type="button"
+            size="sm"
+            disabled={extraction.ids.length === 0}
+            onClick={() => {
+              onImport(extraction.ids);
+              reset();
+            }}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            Use {extraction.ids.length} IDs
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IdFileImport;
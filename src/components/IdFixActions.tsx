@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { applyIdFix, summarizeIdFixes, type IdFix } from '@/lib/id-fixes';
+import type { IdRange } from '@/lib/id-parser';
+import { ArrowDownNarrowWide, CopyMinus, Eraser, Undo2 } from 'lucide-react';
+
+interface IdFixActionsProps {
+  input: string;
+  allowedRanges?: IdRange[];
+  onChange: (input: string) => void;
+}
+
+interface AppliedFix {
+  label: string;
+  previousInput: string;
+  input: string;
+  removed: string[];
+}
+
+const REMOVED_PREVIEW_LIMIT = 20;
+
+const IdFixActions = ({ input, allowedRanges, onChange }: IdFixActionsProps) => {
+  const [applied, setApplied] = useState<AppliedFix | null>(null);
+  const { duplicateCount, invalidCount, isSorted } = summarizeIdFixes(input, allowedRanges);
+  // The diff only describes the input the fix produced; any later edit hides it
+  const lastFix = applied?.input === input ? applied : null;
+
+  const apply = (fix: IdFix, label: string) => {
+    const result = applyIdFix(input, fix, allowedRanges);
+    setApplied({ label, previousInput: input, ...result });
+    onChange(result.input);
+  };
+
+  const actions = [
+    duplicateCount > 0 && { fix: 'dedupe' as const, label: `Remove ${duplicateCount} duplicate${duplicateCount === 1 ? '' : 's'}`, icon: CopyMinus },
+    invalidCount > 0 && { fix: 'drop_invalid' as const, label: `Drop ${invalidCount} invalid`, icon: Eraser },
+    !isSorted && { fix: 'sort' as const, label: 'Sort ascending', icon: ArrowDownNarrowWide },
+  ].filter(Boolean);
+
+  if (actions.length === 0 && !lastFix) return null;
+
+  return (
+    <div className="space-y-2">
+      {actions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {actions.map(({ fix, label, icon: Icon }) => (
+            <Button
+              key={fix}
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => apply(fix, label)}
+              className="h-7 border-white/20 bg-transparent text-white hover:bg-white/10"
+            >
+              <Icon className="mr-1 h-3 w-3" />
+              {label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {lastFix && (
+        <div className="bg-white/5 border border-white/10 rounded-lg p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-slate-300">
+              {lastFix.label}: {lastFix.removed.length > 0 ? `${lastFix.removed.length} removed` : 'input reordered'}
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                onChange(lastFix.previousInput);
+                setApplied(null);
+              }}
+              className="h-6 text-slate-400 hover:bg-white/10 hover:text-white"
+            >
+              <Undo2 className="mr-1 h-3 w-3" />
+              Undo
+            </Button>
+          </div>
+          {lastFix.removed.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {lastFix.removed.slice(0, REMOVED_PREVIEW_LIMIT).map((text, index) => (
+                <Badge key={index} variant="outline" className="border-red-400/40 text-red-300 line-through font-mono">
+                  {text}
+                </Badge>
+              ))}
+              {lastFix.removed.length > REMOVED_PREVIEW_LIMIT && (
+                <span className="text-xs text-slate-400 self-center">
+                  …and {lastFix.removed.length - REMOVED_PREVIEW_LIMIT} more
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IdFixActions;
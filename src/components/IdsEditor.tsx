@@ -0,0 +1,161 @@
+import { useMemo, useRef } from 'react';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  createPositionLookup,
+  findDuplicateTokens,
+  tokenizeIds,
+  type IdRange,
+  type TextPosition,
+} from '@/lib/id-parser';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+
+interface IdsEditorProps {
+  id?: string;
+  value: string;
+  placeholder?: string;
+  allowedRanges?: IdRange[];
+  onChange: (value: string) => void;
+}
+
+interface TokenIssue {
+  severity: 'error' | 'warning';
+  start: number;
+  end: number;
+  position: TextPosition;
+  message: string;
+}
+
+const ISSUE_PREVIEW_LIMIT = 50;
+
+// Shared by the textarea and the highlight layer behind it so both wrap identically
+const TEXT_LAYOUT = 'px-3 py-2 text-sm leading-6 whitespace-pre-wrap break-words border';
+
+const collectIssues = (input: string, allowedRanges?: IdRange[]): TokenIssue[] => {
+  const tokens = tokenizeIds(input, allowedRanges);
+  const positionOf = createPositionLookup(input);
+  const errors = tokens
+    .filter(token => token.error)
+    .map(token => ({ severity: 'error' as const, start: token.start, end: token.end, message: token.error as string }));
+  const warnings = findDuplicateTokens(tokens).map(({ token, firstSeen }) => {
+    const first = positionOf(firstSeen.start);
+    return {
+      severity: 'warning' as const,
+      start: token.start,
+      end: token.end,
+      message: `"${token.text}" repeats IDs first listed at line ${first.line}, column ${first.column}`,
+    };
+  });
+  return [...errors, ...warnings]
+    .sort((a, b) => a.start - b.start)
+    .map(issue => ({ ...issue, position: positionOf(issue.start) }));
+};
+
+/**
+ * A textarea that underlines invalid (red) and duplicate (amber) tokens in
+ * place. The underlines live in a layer behind the transparent textarea that
+ * renders the same text with the same metrics, kept in step on scroll.
+ */
+const IdsEditor = ({ id, value, placeholder, allowedRanges, onChange }: IdsEditorProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const issues = useMemo(() => collectIssues(value, allowedRanges), [allowedRanges, value]);
+
+  const segments = useMemo(() => {
+    const parts: { text: string; severity?: TokenIssue['severity'] }[] = [];
+    let cursor = 0;
+    issues.forEach(({ start, end, severity }) => {
+      if (start < cursor) return;
+      parts.push({ text: value.slice(cursor, start) }, { text: value.slice(start, end), severity });
+      cursor = end;
+    });
+    // A trailing newline needs content after it or the backdrop is one line short
+    parts.push({ text: `${value.slice(cursor)} ` });
+    return parts;
+  }, [issues, value]);
+
+  const syncScroll = () => {
+    if (backdropRef.current && textareaRef.current) {
+      backdropRef.current.scrollTop = textareaRef.current.scrollTop;
+      backdropRef.current.scrollLeft = textareaRef.current.scrollLeft;
+    }
+  };
+
+  const jumpTo = ({ start, end, position }: TokenIssue) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(start, end);
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 24;
+    textarea.scrollTop = Math.max(0, (position.line - 1) * lineHeight - textarea.clientHeight / 2);
+    syncScroll();
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative rounded-md bg-white/5">
+        <div
+          ref={backdropRef}
+          aria-hidden
+          className={`${TEXT_LAYOUT} absolute inset-0 overflow-hidden border-transparent text-transparent pointer-events-none`}
+        >
+          {segments.map((segment, index) =>
+            segment.severity ? (
+              <span
+                key={index}
+                className={`underline decoration-wavy underline-offset-4 ${
+                  segment.severity === 'error' ? 'decoration-red-400 bg-red-500/15' : 'decoration-amber-400 bg-amber-500/10'
+                }`}
+              >
+                {segment.text}
+              </span>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            ),
+          )}
+        </div>
+        <Textarea
+          ref={textareaRef}
+          id={id}
+          placeholder={placeholder}
+          value={value}
+          spellCheck={false}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={syncScroll}
+          aria-invalid={issues.some(issue => issue.severity === 'error')}
+          className={`${TEXT_LAYOUT} relative bg-transparent border-white/20 text-white placeholder:text-slate-400 min-h-[100px] focus:border-blue-400 focus:ring-blue-400`}
+        />
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="max-h-40 overflow-y-auto space-y-0.5 text-sm">
+          {issues.slice(0, ISSUE_PREVIEW_LIMIT).map((issue, index) => (
+            <li key={index}>
+              <button
+                type="button"
+                onClick={() => jumpTo(issue)}
+                className={`flex w-full items-center gap-2 rounded px-1 text-left hover:bg-white/10 ${
+                  issue.severity === 'error' ? 'text-red-300' : 'text-amber-300'
+                }`}
+              >
+                {issue.severity === 'error' ? (
+                  <AlertCircle className="h-3 w-3 shrink-0 text-red-400" />
+                ) : (
+                  <AlertTriangle className="h-3 w-3 shrink-0 text-amber-400" />
+                )}
+                <span className="font-mono text-xs text-slate-400 shrink-0">
+                  {issue.position.line}:{issue.position.column}
+                </span>
+                <span>{issue.message}</span>
+              </button>
+            </li>
+          ))}
+          {issues.length > ISSUE_PREVIEW_LIMIT && (
+            <li className="px-1 text-xs text-slate-400">…and {issues.length - ISSUE_PREVIEW_LIMIT} more</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default IdsEditor;
@@ -0,0 +1,34 @@
+import type { IdValidation } from '@/lib/id-parser';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+
+interface IdsValidityLineProps {
+  validation: IdValidation;
+  /** Lists longer than this are submitted as several jobs. */
+  maxIdsPerJob: number;
+}
+
+/** Real-time feedback under an IDs editor: the first problem, or how many IDs were found. */
+const IdsValidityLine = ({ validation, maxIdsPerJob }: IdsValidityLineProps) => {
+  const hasErrors = validation.errors.length > 0;
+  const chunkCount = Math.ceil(validation.ids.length / maxIdsPerJob);
+
+  return (
+    <div className="flex items-center gap-2">
+      {hasErrors ? (
+        <AlertCircle className="h-4 w-4 text-red-400" />
+      ) : (
+        <CheckCircle className="h-4 w-4 text-green-400" />
+      )}
+      <span className={`text-sm ${hasErrors ? 'text-red-400' : 'text-green-400'}`}>
+        {hasErrors
+          ? validation.listErrors[0] ?? 'Invalid format'
+          : validation.rangeCount > 0
+            ? `${validation.ids.length} valid IDs detected (${validation.rangeCount} range${validation.rangeCount === 1 ? '' : 's'} expanded)`
+            : `${validation.ids.length} valid IDs detected`}
+        {!hasErrors && chunkCount > 1 && `, submitted as ${chunkCount} jobs`}
+      </span>
+    </div>
+  );
+};
+
+export default IdsValidityLine;
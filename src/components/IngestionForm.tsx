@@ -1,90 +1,165 @@
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { preserveFormForLogin, takePreservedForm } from '@/lib/auth';
+import { clearFormDraft, loadFormDraft, saveFormDraft } from '@/lib/form-draft';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
-import { CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+import { AlertCircle, Loader2, History, X, Eye, Plus } from 'lucide-react';
+import { isAbortError, type IngestRequest, type JobMetadata, type Priority } from '@/lib/api';
+import { cleanMetadata } from '@/lib/job-metadata';
+import { classifySubmissionError, type SubmissionError } from '@/lib/submission-errors';
+import { validateIds } from '@/lib/id-parser';
+import { submissionFingerprint } from '@/lib/idempotency';
+import {
+  chunkIds,
+  createSubmissionSetId,
+  saveSubmissionSet,
+  type SubmissionSet,
+} from '@/lib/submission-sets';
+import { scheduleStore } from '@/lib/scheduled-submissions';
+import { createJobRow, findCrossJobDuplicates, keepInFirstJobOnly, type JobRowDraft } from '@/lib/multi-job';
+import ContractMismatchPanel from '@/components/ContractMismatchPanel';
+import SubmissionErrorAlert from '@/components/SubmissionErrorAlert';
+import IdFileImport from '@/components/IdFileImport';
+import IdFixActions from '@/components/IdFixActions';
+import IdsEditor from '@/components/IdsEditor';
+import JobTemplates from '@/components/JobTemplates';
+import ScheduleDateTimePicker from '@/components/ScheduleDateTimePicker';
+import ScheduledSubmissions from '@/components/ScheduledSubmissions';
+import BatchPreview from '@/components/BatchPreview';
+import JobMetadataFields from '@/components/JobMetadataFields';
+import JobRowEditor from '@/components/JobRowEditor';
+import IdsValidityLine from '@/components/IdsValidityLine';
+import PrioritySelect from '@/components/PrioritySelect';
+import { useSubmitIngestion } from '@/hooks/use-ingestion';
+import { useEnvironment } from '@/hooks/use-environment';
+import { useCountdown } from '@/hooks/use-countdown';
+import { useValidationPolicy } from '@/hooks/use-validation-policy';
 
 interface IngestionFormProps {
   onIngestionSubmitted: (ingestionId: string) => void;
 }
 
 const IngestionForm = ({ onIngestionSubmitted }: IngestionFormProps) => {
-  const [idsInput, setIdsInput] = useState('');
-  const [priority, setPriority] = useState<string>('');
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Picks up whatever was being typed when an expired session forced a re-login,
+  // or otherwise the draft autosaved before the form was last unmounted
+  const [preserved] = useState(takePreservedForm);
+  const [restoredDraft, setRestoredDraft] = useState(() => (preserved ? null : loadFormDraft()));
+  const [idsInput, setIdsInput] = useState(preserved?.idsInput ?? restoredDraft?.idsInput ?? '');
+  const [priority, setPriority] = useState<string>(preserved?.priority ?? restoredDraft?.priority ?? '');
+  const [metadata, setMetadata] = useState<JobMetadata>(preserved?.metadata ?? restoredDraft?.metadata ?? {});
+  const [extraJobs, setExtraJobs] = useState<JobRowDraft[]>(preserved?.extraJobs ?? restoredDraft?.extraJobs ?? []);
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [submissionError, setSubmissionError] = useState<SubmissionError | null>(null);
+  const [splitIntoJobs, setSplitIntoJobs] = useState(false);
+  const [scheduleLater, setScheduleLater] = useState(false);
+  const [runAt, setRunAt] = useState<Date | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  // The set being submitted, kept after a failed chunk so resubmitting the
+  // same list continues with the remaining chunks instead of starting over
+  const [pendingSet, setPendingSet] = useState<{ fingerprint: string; set: SubmissionSet } | null>(null);
   const { toast } = useToast();
+  const submitIngestion = useSubmitIngestion();
+  const isSubmitting = submitIngestion.isPending;
+  const { environment } = useEnvironment();
+  const { policy } = useValidationPolicy();
+  const validationOptions = (split: boolean) => ({
+    maxIds: split ? Infinity : policy.maxIdsPerJob,
+    allowedRanges: policy.idRanges,
+  });
+  const rateLimitedFor = useCountdown(submissionError?.kind === 'rate_limited' ? submissionError.retryAt : null);
+  const serverFieldErrors = submissionError?.kind === 'validation' ? submissionError.fieldErrors : {};
 
-  const validateIds = (input: string): { isValid: boolean; ids: number[]; errors: string[] } => {
-    const errors: string[] = [];
-    let ids: number[] = [];
+  useEffect(() => {
+    saveFormDraft({ idsInput, priority, metadata, extraJobs });
+  }, [idsInput, priority, metadata, extraJobs]);
 
-    if (!input.trim()) {
-      errors.push('IDs are required');
-      return { isValid: false, ids: [], errors };
-    }
-
-    try {
-      // Try to parse as JSON array first
-      const parsed = JSON.parse(input);
-      if (Array.isArray(parsed)) {
-        ids = parsed;
-      } else {
-        errors.push('Input must be a valid JSON array');
-        return { isValid: false, ids: [], errors };
-      }
-    } catch {
-      // If JSON parsing fails, try comma-separated values
-      try {
-        ids = input.split(',').map(id => {
-          const num = parseInt(id.trim());
-          if (isNaN(num)) {
-            throw new Error(`"${id.trim()}" is not a valid number`);
-          }
-          return num;
-        });
-      } catch (error) {
-        errors.push(error instanceof Error ? error.message : 'Invalid ID format');
-        return { isValid: false, ids: [], errors };
-      }
-    }
+  const resetForm = () => {
+    setIdsInput('');
+    setPriority('');
+    setMetadata({});
+    setExtraJobs([]);
+    setValidationErrors([]);
+    setRestoredDraft(null);
+    clearFormDraft();
+  };
 
-    // Validate that all IDs are positive integers
-    for (const id of ids) {
-      if (!Number.isInteger(id) || id <= 0) {
-        errors.push(`ID "${id}" must be a positive integer`);
-      }
-    }
+  // Server-side field errors describe the input as it was submitted; drop them once it changes
+  const clearFieldErrors = () =>
+    setSubmissionError(current => (current?.kind === 'validation' ? null : current));
 
-    // Check for duplicates
-    const uniqueIds = [...new Set(ids)];
-    if (uniqueIds.length !== ids.length) {
-      errors.push('Duplicate IDs are not allowed');
-    }
+  const updateExtraJob = (key: string, changes: Partial<JobRowDraft>) => {
+    setExtraJobs(rows => rows.map(row => (row.key === key ? { ...row, ...changes } : row)));
+    setValidationErrors([]);
+  };
 
-    if (ids.length === 0) {
-      errors.push('At least one ID is required');
-    }
+  const submitAsSet = async (jobs: IngestRequest[], jobMetadata: JobMetadata) => {
+    const fingerprint = jobs.map(job => submissionFingerprint({ ...job, ...jobMetadata })).join('|');
+    const resumable = pendingSet?.fingerprint === fingerprint && pendingSet.set.environmentId === environment.id;
+    const mixesPriorities = jobs.some(job => job.priority !== jobs[0].priority);
+    let set: SubmissionSet = resumable
+      ? pendingSet.set
+      : {
+          id: createSubmissionSetId(),
+          environmentId: environment.id,
+          priority: jobs[0].priority,
+          jobPriorities: mixesPriorities ? jobs.map(job => job.priority) : undefined,
+          metadata: jobMetadata,
+          createdAt: new Date().toISOString(),
+          totalIds: jobs.reduce((total, job) => total + job.ids.length, 0),
+          ingestionIds: [],
+          chunkCount: jobs.length,
+        };
+    setPendingSet({ fingerprint, set });
 
-    if (ids.length > 100) {
-      errors.push('Maximum 100 IDs allowed per job');
+    for (let index = set.ingestionIds.length; index < jobs.length; index++) {
+      const data = await submitIngestion.mutateAsync({ ...jobs[index], ...jobMetadata });
+      set = { ...set, ingestionIds: [...set.ingestionIds, data.ingestion_id] };
+      // Saved after every chunk so a partially submitted set can still be tracked
+      saveSubmissionSet(set);
+      setPendingSet({ fingerprint, set });
     }
-
-    return { isValid: errors.length === 0, ids, errors };
+    setPendingSet(null);
+    return set;
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    const validation = validateIds(idsInput);
-    setValidationErrors(validation.errors);
+  const isKnownPriority = (value: string) => policy.priorities.some(level => level.value === value);
+  // The first row is the form's own IDs and priority; further rows are added below it
+  const rows = [{ idsInput, priority }, ...extraJobs];
+  const rowValidations = rows.map(row => validateIds(row.idsInput, validationOptions(splitIntoJobs)));
+  const validation = rowValidations[0];
+  const isOversized = rows.some(
+    row => validateIds(row.idsInput, validationOptions(true)).ids.length > policy.maxIdsPerJob,
+  );
+  const crossJobDuplicates = extraJobs.length ? findCrossJobDuplicates(rowValidations.map(({ ids }) => ids)) : [];
+  // Every job that will actually be created, in submission order, with oversized rows already split
+  const jobs: IngestRequest[] = rows.flatMap((row, index) =>
+    chunkIds(rowValidations[index].ids, policy.maxIdsPerJob).map(ids => ({ ids, priority: row.priority as Priority })),
+  );
+  const totalIds = jobs.reduce((total, job) => total + job.ids.length, 0);
+  const submittedChunks = pendingSet?.set.ingestionIds.length ?? 0;
+  const hasErrors = validation.errors.length > 0 && idsInput.trim() !== '';
+  const allValid = rowValidations.every(rowValidation => rowValidation.isValid);
+  const allPrioritiesKnown = rows.every(row => isKnownPriority(row.priority));
+  // Counts the jobs across every row once they are all valid, split ones included
+  const jobCount = allValid ? jobs.length : rows.length;
+  const submitLabel = jobCount > 1
+    ? `${scheduleLater ? 'Schedule' : 'Submit'} ${jobCount} Ingestion Jobs`
+    : scheduleLater ? 'Schedule Ingestion Job' : 'Submit Ingestion Job';
+
+  const submit = async () => {
+    // Token-level problems are already listed, with their positions, under each editor
+    setValidationErrors(
+      rowValidations.flatMap((rowValidation, index) =>
+        rowValidation.listErrors.map(error => (extraJobs.length ? `Job ${index + 1}: ${error}` : error)),
+      ),
+    );
 
-    if (!validation.isValid) {
+    if (!allValid) {
       toast({
         title: "Validation Error",
         description: "Please fix the errors before submitting",
@@ -93,163 +168,440 @@ const IngestionForm = ({ onIngestionSubmitted }: IngestionFormProps) => {
       return;
     }
 
-    if (!priority) {
+    if (!allPrioritiesKnown) {
       toast({
         title: "Priority Required",
-        description: "Please select a priority level",
+        description: extraJobs.length ? "Please select a priority level for every job" : "Please select a priority level",
         variant: "destructive",
       });
       return;
     }
 
-    setIsSubmitting(true);
+    if (crossJobDuplicates.length) {
+      toast({
+        title: "Duplicate IDs Across Jobs",
+        description: `${crossJobDuplicates.length} ID${crossJobDuplicates.length === 1 ? ' is' : 's are'} in more than one job`,
+        variant: "destructive",
+      });
+      return;
+    }
 
-    try {
-      // Simulate API call - replace with actual endpoint
-      const response = await fetch('http://localhost:5000/ingest', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          ids: validation.ids,
-          priority: priority
+    const jobMetadata = cleanMetadata(metadata);
+
+    if (scheduleLater) {
+      if (!runAt || runAt.getTime() <= Date.now()) {
+        toast({
+          title: "Pick a Future Time",
+          description: "Scheduled jobs need a date and time that hasn't passed yet",
+          variant: "destructive",
+        });
+        return;
+      }
+      // Queued as one scheduled job per row and chunk, all due at the same time
+      jobs.forEach(job =>
+        scheduleStore.add({
+          environmentId: environment.id,
+          ids: job.ids,
+          priority: job.priority,
+          metadata: jobMetadata,
+          runAt: runAt.toISOString(),
         }),
+      );
+      toast({
+        title: jobs.length === 1 ? "Job Scheduled" : "Jobs Scheduled",
+        description: `${totalIds} IDs will be submitted to ${environment.label} at ${runAt.toLocaleString()}`,
       });
+      resetForm();
+      setScheduleLater(false);
+      setRunAt(null);
+      setSplitIntoJobs(false);
+      return;
+    }
+
+    setSubmissionError(null);
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+    try {
+      if (jobs.length > 1) {
+        const set = await submitAsSet(jobs, jobMetadata);
+        toast({
+          title: "Jobs Submitted Successfully!",
+          description: extraJobs.length
+            ? `${set.chunkCount} jobs with ${set.totalIds} IDs were created. Submission set: ${set.id}`
+            : `${set.totalIds} IDs were split into ${set.chunkCount} jobs. Submission set: ${set.id}`,
+        });
+        onIngestionSubmitted(set.id);
+        resetForm();
+        setSplitIntoJobs(false);
+        return;
       }
 
-      const data = await response.json();
-      
-      toast({
-        title: "Job Submitted Successfully!",
-        description: `Ingestion ID: ${data.ingestion_id}`,
-      });
+      const data = await submitIngestion.mutateAsync({ ...jobs[0], ...jobMetadata });
+
+      toast(data.replayed
+        ? {
+            title: "Already Submitted",
+            description: `This job was already created as ${data.ingestion_id}; showing it instead.`,
+          }
+        : {
+            title: "Job Submitted Successfully!",
+            description: `Ingestion ID: ${data.ingestion_id}`,
+          });
 
       onIngestionSubmitted(data.ingestion_id);
-      
-      // Reset form
-      setIdsInput('');
-      setPriority('');
-      setValidationErrors([]);
-      
+      resetForm();
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Submission error:', error);
-      toast({
-        title: "Submission Failed",
-        description: "Failed to submit ingestion job. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsSubmitting(false);
+      const classified = classifySubmissionError(error);
+      if (classified.kind === 'unauthorized') {
+        // A 401 also redirects to the login screen; keep the input for afterwards
+        preserveFormForLogin({ idsInput, priority, metadata, extraJobs });
+      }
+      setSubmissionError(classified);
     }
   };
 
-  const validation = validateIds(idsInput);
-  const hasErrors = validation.errors.length > 0 && idsInput.trim() !== '';
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit();
+  };
 
   return (
-    <Card className="bg-white/10 backdrop-blur-md border border-white/20 shadow-2xl">
-      <CardHeader className="text-center">
-        <CardTitle className="text-2xl text-white">Submit Ingestion Job</CardTitle>
-        <CardDescription className="text-slate-300">
-          Enter the IDs you want to process and select a priority level
-        </CardDescription>
-      </CardHeader>
-      <CardContent className="space-y-6">
-        <form onSubmit={handleSubmit} className="space-y-6">
-          {/* IDs Input */}
-          <div className="space-y-2">
-            <Label htmlFor="ids" className="text-white font-medium">
-              IDs to Process
-            </Label>
-            <Textarea
-              id="ids"
-              placeholder="Enter IDs as JSON array: [1, 2, 3, 4] or comma-separated: 1, 2, 3, 4"
-              value={idsInput}
-              onChange={(e) => setIdsInput(e.target.value)}
-              className="bg-white/5 border-white/20 text-white placeholder:text-slate-400 min-h-[100px] focus:border-blue-400 focus:ring-blue-400"
-            />
-            
-            {/* Real-time validation feedback */}
-            {idsInput.trim() && (
-              <div className="flex items-center gap-2 mt-2">
-                {hasErrors ? (
-                  <AlertCircle className="h-4 w-4 text-red-400" />
-                ) : (
-                  <CheckCircle className="h-4 w-4 text-green-400" />
-                )}
-                <span className={`text-sm ${hasErrors ? 'text-red-400' : 'text-green-400'}`}>
-                  {hasErrors ? 'Invalid format' : `${validation.ids.length} valid IDs detected`}
+    <div className="space-y-6">
+      <Card className="bg-white/10 backdrop-blur-md border border-white/20 shadow-2xl">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl text-white">Submit Ingestion Job</CardTitle>
+          <CardDescription className="text-slate-300">
+            Enter the IDs you want to process and select a priority level
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {restoredDraft && (
+              <div className="flex items-center justify-between gap-2 bg-blue-500/10 border border-blue-500/20 rounded-lg p-3">
+                <span className="text-sm text-blue-200 flex items-center gap-2">
+                  <History className="h-4 w-4" />
+                  Draft restored from {new Date(restoredDraft.savedAt).toLocaleString()}
                 </span>
+                <div className="flex items-center gap-1">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={resetForm}
+                    className="h-7 text-blue-200 hover:bg-white/10 hover:text-white"
+                  >
+                    Discard draft
+                  </Button>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    aria-label="Dismiss"
+                    onClick={() => setRestoredDraft(null)}
+                    className="h-7 w-7 text-blue-200 hover:bg-white/10 hover:text-white"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
               </div>
             )}
 
-            {/* Validation errors */}
-            {validationErrors.length > 0 && (
-              <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3">
-                <h4 className="text-red-400 font-medium mb-2">Validation Errors:</h4>
-                <ul className="list-disc list-inside space-y-1">
-                  {validationErrors.map((error, index) => (
-                    <li key={index} className="text-red-300 text-sm">{error}</li>
+            <JobTemplates
+              idsInput={idsInput}
+              priority={priority}
+              metadata={metadata}
+              extraJobs={extraJobs}
+              onLoad={(template) => {
+                // A template replaces the whole form, so nothing of the previous job mixes in
+                setIdsInput(template.idsInput);
+                setPriority(template.priority);
+                setMetadata(template.metadata ?? {});
+                setExtraJobs((template.extraJobs ?? []).map(row => ({ ...createJobRow(), ...row })));
+                setValidationErrors([]);
+                clearFieldErrors();
+                toast({
+                  title: "Template Loaded",
+                  description: `Loaded "${template.name}"`,
+                });
+              }}
+            />
+
+            {/* IDs Input */}
+            <div className="space-y-2">
+              <Label htmlFor="ids" className="text-white font-medium">
+                {extraJobs.length ? 'Job 1 · IDs to Process' : 'IDs to Process'}
+              </Label>
+              <IdsEditor
+                id="ids"
+                allowedRanges={policy.idRanges}
+                placeholder="Enter IDs as a JSON array [1, 2, 3], separated by commas, spaces, semicolons or new lines, or as ranges: 1-500, 720, 900..950"
+                value={idsInput}
+                onChange={(value) => {
+                  setIdsInput(value);
+                  clearFieldErrors();
+                }}
+              />
+
+              <IdFileImport
+                onImport={(ids) => {
+                  setIdsInput(ids.join(', '));
+                  setValidationErrors([]);
+                  clearFieldErrors();
+                }}
+              />
+              
+              {/* Real-time validation feedback */}
+              {idsInput.trim() && <IdsValidityLine validation={validation} maxIdsPerJob={policy.maxIdsPerJob} />}
+
+              {idsInput.trim() && (
+                <IdFixActions
+                  input={idsInput}
+                  allowedRanges={policy.idRanges}
+                  onChange={(fixed) => {
+                    setIdsInput(fixed);
+                    setValidationErrors([]);
+                    clearFieldErrors();
+                  }}
+                />
+              )}
+
+              {isOversized && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="split-into-jobs"
+                    checked={splitIntoJobs}
+                    disabled={isSubmitting}
+                    onCheckedChange={(checked) => {
+                      setSplitIntoJobs(checked);
+                      setValidationErrors([]);
+                    }}
+                  />
+                  <Label htmlFor="split-into-jobs" className="text-slate-300 text-sm">
+                    Split into multiple jobs of up to {policy.maxIdsPerJob} IDs, tracked together as a submission set
+                  </Label>
+                </div>
+              )}
+
+              {/* Validation errors */}
+              {validationErrors.length > 0 && (
+                <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+                  <h4 className="text-red-400 font-medium mb-2">Validation Errors:</h4>
+                  <ul className="list-disc list-inside space-y-1">
+                    {validationErrors.map((error, index) => (
+                      <li key={index} className="text-red-300 text-sm">{error}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {serverFieldErrors.ids && (
+                <ul className="space-y-1">
+                  {serverFieldErrors.ids.map((error, index) => (
+                    <li key={index} className="text-red-300 text-sm flex items-center gap-2">
+                      <AlertCircle className="h-4 w-4 text-red-400" />
+                      {error}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Priority Selection */}
+            <div className="space-y-2">
+              <Label htmlFor="priority" className="text-white font-medium">
+                Priority Level
+              </Label>
+              <PrioritySelect
+                id="priority"
+                value={priority}
+                onChange={(value) => {
+                  setPriority(value);
+                  clearFieldErrors();
+                }}
+              />
+              {policy.unsupportedPriorities.length > 0 && (
+                <p className="text-sm text-amber-400 flex items-center gap-2">
+                  <AlertCircle className="h-4 w-4" />
+                  {environment.label} also offers {policy.unsupportedPriorities.join(', ')}, which this dashboard
+                  can't submit yet.
+                </p>
+              )}
+              {serverFieldErrors.priority?.map((error, index) => (
+                <p key={index} className="text-sm text-red-300 flex items-center gap-2">
+                  <AlertCircle className="h-4 w-4 text-red-400" />
+                  {error}
+                </p>
+              ))}
+            </div>
+
+            {/* Additional jobs */}
+            {extraJobs.map((row, index) => (
+              <JobRowEditor
+                key={row.key}
+                jobNumber={index + 2}
+                row={row}
+                split={splitIntoJobs}
+                disabled={isSubmitting}
+                onChange={(changes) => {
+                  updateExtraJob(row.key, changes);
+                  clearFieldErrors();
+                }}
+                onRemove={() => {
+                  setExtraJobs(current => current.filter(other => other.key !== row.key));
+                  setValidationErrors([]);
+                }}
+              />
+            ))}
+
+            {crossJobDuplicates.length > 0 && (
+              <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 space-y-2">
+                <h4 className="text-red-400 font-medium">
+                  {crossJobDuplicates.length} ID{crossJobDuplicates.length === 1 ? ' is' : 's are'} in more than one job
+                </h4>
+                <ul className="space-y-1">
+                  {crossJobDuplicates.slice(0, 5).map(duplicate => (
+                    <li key={duplicate.id} className="text-red-300 text-sm">
+                      {duplicate.id} in jobs {duplicate.rows.map(row => row + 1).join(', ')}
+                    </li>
                   ))}
                 </ul>
+                {crossJobDuplicates.length > 5 && (
+                  <p className="text-red-300 text-sm">and {crossJobDuplicates.length - 5} more</p>
+                )}
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  disabled={isSubmitting}
+                  onClick={() => {
+                    // Rows left empty are dropped; if that were the first, the next one takes its place
+                    const [first, ...rest] = keepInFirstJobOnly(
+                      [{ key: '', idsInput, priority }, ...extraJobs],
+                      policy.idRanges,
+                    );
+                    setIdsInput(first.idsInput);
+                    setPriority(first.priority);
+                    setExtraJobs(rest);
+                    setValidationErrors([]);
+                    clearFieldErrors();
+                  }}
+                  className="border-red-500/30 bg-transparent text-red-200 hover:bg-red-500/10 hover:text-red-100"
+                >
+                  Keep each ID in its first job only
+                </Button>
+              </div>
+            )}
+
+            <Button
+              type="button"
+              variant="outline"
+              disabled={isSubmitting}
+              onClick={() => setExtraJobs(current => [...current, createJobRow()])}
+              className="w-full border-dashed border-white/20 bg-transparent text-slate-300 hover:bg-white/10 hover:text-white"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add another job with its own IDs and priority
+            </Button>
+
+            {/* Job Details */}
+            <JobMetadataFields idPrefix="job" value={metadata} disabled={isSubmitting} onChange={setMetadata} />
+
+            {/* Scheduling */}
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="schedule-later"
+                  checked={scheduleLater}
+                  onCheckedChange={setScheduleLater}
+                  disabled={isSubmitting}
+                />
+                <Label htmlFor="schedule-later" className="text-slate-300 text-sm">Schedule for later</Label>
+              </div>
+              {scheduleLater && <ScheduleDateTimePicker value={runAt} onChange={setRunAt} />}
+            </div>
+
+            {isSubmitting && pendingSet && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-300">
+                    Submitting job {Math.min(submittedChunks + 1, pendingSet.set.chunkCount)} of {pendingSet.set.chunkCount}
+                  </span>
+                  <span className="text-white">{submittedChunks} / {pendingSet.set.chunkCount} jobs created</span>
+                </div>
+                <Progress value={(submittedChunks / pendingSet.set.chunkCount) * 100} className="h-2 bg-white/10" />
               </div>
             )}
-          </div>
-
-          {/* Priority Selection */}
-          <div className="space-y-2">
-            <Label htmlFor="priority" className="text-white font-medium">
-              Priority Level
-            </Label>
-            <Select value={priority} onValueChange={setPriority}>
-              <SelectTrigger className="bg-white/5 border-white/20 text-white">
-                <SelectValue placeholder="Select priority level" />
-              </SelectTrigger>
-              <SelectContent className="bg-slate-800 border-slate-700">
-                <SelectItem value="HIGH" className="text-white hover:bg-slate-700">
-                  <div className="flex items-center gap-2">
-                    <Badge className="bg-red-500">HIGH</Badge>
-                    <span>Process immediately</span>
-                  </div>
-                </SelectItem>
-                <SelectItem value="MEDIUM" className="text-white hover:bg-slate-700">
-                  <div className="flex items-center gap-2">
-                    <Badge className="bg-yellow-500">MEDIUM</Badge>
-                    <span>Standard processing</span>
-                  </div>
-                </SelectItem>
-                <SelectItem value="LOW" className="text-white hover:bg-slate-700">
-                  <div className="flex items-center gap-2">
-                    <Badge className="bg-green-500">LOW</Badge>
-                    <span>Process when resources available</span>
-                  </div>
-                </SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-
-          {/* Submit Button */}
-          <Button 
-            type="submit" 
-            disabled={isSubmitting || hasErrors || !priority || !idsInput.trim()}
-            className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold py-3 transition-all duration-200 disabled:opacity-50"
-          >
-            {isSubmitting ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Submitting Job...
-              </>
-            ) : (
-              'Submit Ingestion Job'
+
+            {submissionError && (
+              <SubmissionErrorAlert error={submissionError} onRetry={submit} isRetrying={isSubmitting} />
             )}
-          </Button>
-        </form>
-      </CardContent>
-    </Card>
+
+            {!isSubmitting && submissionError && submittedChunks > 0 && pendingSet && (
+              <p className="text-sm text-amber-400 flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" />
+                {submittedChunks} of {pendingSet.set.chunkCount} jobs were created as {pendingSet.set.id}.
+                Submitting the same IDs again continues with the remaining jobs.
+              </p>
+            )}
+
+            {/* Submit Button */}
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                disabled={
+                  isSubmitting || !allValid || !allPrioritiesKnown || crossJobDuplicates.length > 0 || (scheduleLater && !runAt)
+                }
+                onClick={() => setShowPreview(true)}
+                className="border-white/20 bg-transparent text-white hover:bg-white/10 py-3"
+              >
+                <Eye className="mr-2 h-4 w-4" />
+                Preview
+              </Button>
+              <Button 
+                type="submit" 
+                disabled={
+                  isSubmitting ||
+                  hasErrors ||
+                  !priority ||
+                  !idsInput.trim() ||
+                  extraJobs.some(row => !row.idsInput.trim() || !row.priority) ||
+                  rateLimitedFor > 0 ||
+                  (scheduleLater && !runAt)
+                }
+                className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold py-3 transition-all duration-200 disabled:opacity-50"
+              >
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    {pendingSet ? 'Submitting Jobs...' : 'Submitting Job...'}
+                  </>
+                ) : (
+                  submitLabel
+                )}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {allPrioritiesKnown && (
+        <BatchPreview
+          open={showPreview}
+          onOpenChange={setShowPreview}
+          jobs={jobs}
+          scheduledFor={scheduleLater ? runAt : null}
+          submitLabel={submitLabel}
+          submitDisabled={rateLimitedFor > 0}
+          onSubmit={submit}
+        />
+      )}
+
+      {submissionError?.kind === 'contract' && <ContractMismatchPanel error={submissionError.error} />}
+
+      <ScheduledSubmissions onOpenJob={onIngestionSubmitted} />
+    </div>
   );
 };
 
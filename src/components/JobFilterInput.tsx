@@ -0,0 +1,23 @@
+import { Input } from '@/components/ui/input';
+import { Search } from 'lucide-react';
+
+interface JobFilterInputProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/** Free-text filter over job metadata; see `matchesJobFilter` for the query syntax. */
+const JobFilterInput = ({ value, onChange }: JobFilterInputProps) => (
+  <div className="relative">
+    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
+    <Input
+      aria-label="Filter jobs"
+      value={value}
+      placeholder="Filter by text, label:nightly, owner:data-team or ref:OPS-1234"
+      onChange={(e) => onChange(e.target.value)}
+      className="pl-9 bg-white/5 border-white/20 text-white placeholder:text-slate-400"
+    />
+  </div>
+);
+
+export default JobFilterInput;
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { MAX_LABELS, parseLabels } from '@/lib/job-metadata';
+import type { JobMetadata } from '@/lib/api';
+import { X } from 'lucide-react';
+
+interface JobMetadataFieldsProps {
+  /** Prefix for the input ids, so the fields can appear more than once on a page. */
+  idPrefix: string;
+  value: JobMetadata;
+  disabled?: boolean;
+  onChange: (value: JobMetadata) => void;
+}
+
+/** Optional labels, owner, ticket reference and description for a job. */
+const JobMetadataFields = ({ idPrefix, value, disabled, onChange }: JobMetadataFieldsProps) => {
+  const [labelText, setLabelText] = useState('');
+  const labels = value.labels ?? [];
+
+  const addLabels = (text: string) => {
+    const next = parseLabels([...labels, ...parseLabels(text)].join(',')).slice(0, MAX_LABELS);
+    onChange({ ...value, labels: next });
+    setLabelText('');
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2 md:col-span-2">
+        <Label htmlFor={`${idPrefix}-labels`} className="text-white font-medium">
+          Labels <span className="text-slate-400 font-normal">(optional)</span>
+        </Label>
+        <div className="flex flex-wrap items-center gap-2 rounded-md bg-white/5 border border-white/20 px-2 py-1.5">
+          {labels.map(label => (
+            <Badge key={label} variant="outline" className="border-blue-400/40 bg-blue-500/10 text-blue-100 gap-1">
+              {label}
+              <button
+                type="button"
+                aria-label={`Remove label ${label}`}
+                disabled={disabled}
+                onClick={() => onChange({ ...value, labels: labels.filter(other => other !== label) })}
+                className="hover:text-white"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          <input
+            id={`${idPrefix}-labels`}
+            value={labelText}
+            disabled={disabled || labels.length >= MAX_LABELS}
+            placeholder={labels.length ? '' : 'e.g. nightly, partners'}
+            onChange={(e) => {
+              // Typing or pasting a comma turns what came before it into labels
+              if (e.target.value.includes(',')) addLabels(e.target.value);
+              else setLabelText(e.target.value);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && labelText.trim()) {
+                e.preventDefault();
+                addLabels(labelText);
+              } else if (e.key === 'Backspace' && !labelText && labels.length) {
+                onChange({ ...value, labels: labels.slice(0, -1) });
+              }
+            }}
+            onBlur={() => labelText.trim() && addLabels(labelText)}
+            className="flex-1 min-w-[120px] bg-transparent text-sm text-white placeholder:text-slate-400 outline-none"
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-owner`} className="text-white font-medium">
+          Owner <span className="text-slate-400 font-normal">(optional)</span>
+        </Label>
+        <Input
+          id={`${idPrefix}-owner`}
+          value={value.owner ?? ''}
+          disabled={disabled}
+          placeholder="Team or person"
+          onChange={(e) => onChange({ ...value, owner: e.target.value })}
+          className="bg-white/5 border-white/20 text-white placeholder:text-slate-400"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-ref`} className="text-white font-medium">
+          Ticket <span className="text-slate-400 font-normal">(optional)</span>
+        </Label>
+        <Input
+          id={`${idPrefix}-ref`}
+          value={value.external_ref ?? ''}
+          disabled={disabled}
+          placeholder="e.g. OPS-1234"
+          onChange={(e) => onChange({ ...value, external_ref: e.target.value })}
+          className="bg-white/5 border-white/20 text-white placeholder:text-slate-400"
+        />
+      </div>
+      <div className="space-y-2 md:col-span-2">
+        <Label htmlFor={`${idPrefix}-description`} className="text-white font-medium">
+          Description <span className="text-slate-400 font-normal">(optional)</span>
+        </Label>
+        <Textarea
+          id={`${idPrefix}-description`}
+          value={value.description ?? ''}
+          disabled={disabled}
+          placeholder="What this job is for"
+          onChange={(e) => onChange({ ...value, description: e.target.value })}
+          className="bg-white/5 border-white/20 text-white placeholder:text-slate-400 min-h-[60px]"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default JobMetadataFields;
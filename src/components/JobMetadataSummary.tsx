@@ -0,0 +1,47 @@
+import { Badge } from '@/components/ui/badge';
+import { cleanMetadata } from '@/lib/job-metadata';
+import type { JobMetadata } from '@/lib/api';
+import { Tag, Ticket, User } from 'lucide-react';
+
+interface JobMetadataSummaryProps {
+  metadata: JobMetadata | undefined;
+  /** One line for list rows: the description is truncated. */
+  compact?: boolean;
+}
+
+const JobMetadataSummary = ({ metadata, compact = false }: JobMetadataSummaryProps) => {
+  const { labels, description, owner, external_ref } = cleanMetadata(metadata ?? {});
+  if (!labels && !description && !owner && !external_ref) return null;
+
+  return (
+    <div className={compact ? 'flex flex-wrap items-center gap-x-3 gap-y-1 text-sm min-w-0' : 'space-y-2 text-sm'}>
+      <div className="flex flex-wrap items-center gap-2">
+        {labels?.map(label => (
+          <Badge key={label} variant="outline" className="border-blue-400/40 bg-blue-500/10 text-blue-100 gap-1">
+            <Tag className="h-3 w-3" />
+            {label}
+          </Badge>
+        ))}
+        {owner && (
+          <span className="text-slate-300 flex items-center gap-1">
+            <User className="h-3.5 w-3.5 text-slate-400" />
+            {owner}
+          </span>
+        )}
+        {external_ref && (
+          <span className="text-slate-300 flex items-center gap-1 font-mono">
+            <Ticket className="h-3.5 w-3.5 text-slate-400" />
+            {external_ref}
+          </span>
+        )}
+      </div>
+      {description && (
+        <p className={compact ? 'text-slate-400 truncate max-w-md' : 'text-slate-300 whitespace-pre-wrap'} title={description}>
+          {description}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default JobMetadataSummary;
@@ -0,0 +1,80 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import IdFixActions from '@/components/IdFixActions';
+import IdsEditor from '@/components/IdsEditor';
+import IdsValidityLine from '@/components/IdsValidityLine';
+import PrioritySelect from '@/components/PrioritySelect';
+import { useValidationPolicy } from '@/hooks/use-validation-policy';
+import { validateIds } from '@/lib/id-parser';
+import type { JobRowDraft } from '@/lib/multi-job';
+import { Trash2 } from 'lucide-react';
+
+interface JobRowEditorProps {
+  /** 1-based position in the form, as shown to the user. */
+  jobNumber: number;
+  row: JobRowDraft;
+  /** Oversized lists will be split, so the per-job limit doesn't apply. */
+  split: boolean;
+  disabled?: boolean;
+  onChange: (changes: Partial<JobRowDraft>) => void;
+  onRemove: () => void;
+}
+
+/** An additional job in the submission form, with its own IDs and priority. */
+const JobRowEditor = ({ jobNumber, row, split, disabled, onChange, onRemove }: JobRowEditorProps) => {
+  const { policy } = useValidationPolicy();
+  const validation = validateIds(row.idsInput, {
+    maxIds: split ? Infinity : policy.maxIdsPerJob,
+    allowedRanges: policy.idRanges,
+  });
+
+  return (
+    <div className="bg-white/5 rounded-lg p-4 border border-white/10 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-white font-medium">Job {jobNumber}</span>
+        <Button
+          type="button"
+          size="icon"
+          variant="ghost"
+          aria-label={`Remove job ${jobNumber}`}
+          disabled={disabled}
+          onClick={onRemove}
+          className="h-8 w-8 text-red-300 hover:bg-red-500/10 hover:text-red-200"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${row.key}-ids`} className="text-slate-300 text-sm">IDs</Label>
+        <IdsEditor
+          id={`${row.key}-ids`}
+          allowedRanges={policy.idRanges}
+          placeholder="1-500, 720, 900..950"
+          value={row.idsInput}
+          onChange={(idsInput) => onChange({ idsInput })}
+        />
+        {row.idsInput.trim() && <IdsValidityLine validation={validation} maxIdsPerJob={policy.maxIdsPerJob} />}
+        {row.idsInput.trim() && (
+          <IdFixActions
+            input={row.idsInput}
+            allowedRanges={policy.idRanges}
+            onChange={(idsInput) => onChange({ idsInput })}
+          />
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${row.key}-priority`} className="text-slate-300 text-sm">Priority</Label>
+        <PrioritySelect
+          id={`${row.key}-priority`}
+          value={row.priority}
+          disabled={disabled}
+          onChange={(priority) => onChange({ priority })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default JobRowEditor;
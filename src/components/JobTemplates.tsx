@@ -0,0 +1,330 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useJobTemplates } from '@/hooks/use-job-templates';
+import { useValidationPolicy } from '@/hooks/use-validation-policy';
+import {
+  exportTemplates,
+  findTemplateByName,
+  parseTemplateExport,
+  templateStore,
+  type JobTemplate,
+  type JobTemplateDraft,
+} from '@/lib/job-templates';
+import { tokenizeIds } from '@/lib/id-parser';
+import { cleanMetadata, hasMetadata } from '@/lib/job-metadata';
+import type { JobRowDraft } from '@/lib/multi-job';
+import type { JobMetadata, Priority } from '@/lib/api';
+import JobMetadataSummary from '@/components/JobMetadataSummary';
+import { BookmarkPlus, Download, Pencil, Settings2, Trash2, Upload } from 'lucide-react';
+
+interface JobTemplatesProps {
+  idsInput: string;
+  priority: string;
+  metadata: JobMetadata;
+  extraJobs: JobRowDraft[];
+  onLoad: (template: JobTemplate) => void;
+}
+
+type DialogState =
+  | { mode: 'closed' }
+  | { mode: 'manage' }
+  | { mode: 'edit'; template: JobTemplate | null; draft: JobTemplateDraft; returnTo: 'closed' | 'manage' };
+
+const EXPORT_FILE_NAME = 'ingest-flow-templates.json';
+
+const countIds = (idsInput: string) => tokenizeIds(idsInput).reduce((count, token) => count + token.ids.length, 0);
+
+const countTemplateIds = ({ idsInput, extraJobs = [] }: JobTemplateDraft) =>
+  [idsInput, ...extraJobs.map(row => row.idsInput)].reduce((count, input) => count + countIds(input), 0);
+
+const downloadJson = (fileName: string, contents: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const JobTemplates = ({ idsInput, priority, metadata, extraJobs, onLoad }: JobTemplatesProps) => {
+  const templates = useJobTemplates();
+  const { policy } = useValidationPolicy();
+  const { toast } = useToast();
+  const importRef = useRef<HTMLInputElement>(null);
+  const [dialog, setDialog] = useState<DialogState>({ mode: 'closed' });
+
+  const draft = dialog.mode === 'edit' ? dialog.draft : null;
+  const nameTaken = draft ? findTemplateByName(draft.name) : null;
+  // Saving under an existing name overwrites that template, but only when it isn't the one being edited
+  const overwrites = dialog.mode === 'edit' && nameTaken && nameTaken.id !== dialog.template?.id ? nameTaken : null;
+
+  const setDraft = (changes: Partial<JobTemplateDraft>) =>
+    setDialog(current => (current.mode === 'edit' ? { ...current, draft: { ...current.draft, ...changes } } : current));
+
+  const openEditor = (template: JobTemplate | null, returnTo: 'closed' | 'manage') =>
+    setDialog({
+      mode: 'edit',
+      template,
+      returnTo,
+      draft: template
+        ? {
+            name: template.name,
+            idsInput: template.idsInput,
+            priority: template.priority,
+            metadata: template.metadata,
+            extraJobs: template.extraJobs,
+          }
+        : {
+            name: '',
+            idsInput,
+            priority: priority as Priority,
+            metadata: hasMetadata(metadata) ? cleanMetadata(metadata) : undefined,
+            extraJobs: extraJobs.length
+              ? extraJobs.map(row => ({ idsInput: row.idsInput, priority: row.priority as Priority }))
+              : undefined,
+          },
+    });
+
+  const saveDraft = () => {
+    if (dialog.mode !== 'edit') return;
+    if (overwrites) {
+      templateStore.edit(overwrites.id, dialog.draft);
+      if (dialog.template) templateStore.remove(dialog.template.id);
+    } else if (dialog.template) {
+      templateStore.edit(dialog.template.id, dialog.draft);
+    } else {
+      templateStore.create(dialog.draft);
+    }
+    toast({
+      title: "Template Saved",
+      description: `"${dialog.draft.name.trim()}" can now be loaded from the templates menu`,
+    });
+    setDialog(dialog.returnTo === 'manage' ? { mode: 'manage' } : { mode: 'closed' });
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parseTemplateExport(await file.text());
+      templateStore.importMany(imported);
+      toast({
+        title: "Templates Imported",
+        description: `${imported.length} template${imported.length === 1 ? '' : 's'} imported from ${file.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : `Could not read ${file.name}`,
+        variant: "destructive",
+      });
+    } finally {
+      if (importRef.current) importRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value=""
+        onValueChange={(id) => {
+          const template = templates.find(candidate => candidate.id === id);
+          if (template) onLoad(template);
+        }}
+        disabled={templates.length === 0}
+      >
+        <SelectTrigger className="h-8 w-[220px] bg-white/5 border-white/20 text-white">
+          <SelectValue placeholder={templates.length ? 'Load a template…' : 'No saved templates'} />
+        </SelectTrigger>
+        <SelectContent className="bg-slate-800 border-slate-700">
+          {templates.map(template => (
+            <SelectItem key={template.id} value={template.id} className="text-white hover:bg-slate-700">
+              {template.name} <span className="text-slate-400">· {template.priority}</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        disabled={!idsInput.trim() || !priority || extraJobs.some(row => !row.idsInput.trim() || !row.priority)}
+        onClick={() => openEditor(null, 'closed')}
+        className="h-8 border-white/20 bg-transparent text-white hover:bg-white/10"
+      >
+        <BookmarkPlus className="mr-1 h-4 w-4" />
+        Save as template
+      </Button>
+      <Button
+        type="button"
+        size="sm"
+        variant="ghost"
+        onClick={() => setDialog({ mode: 'manage' })}
+        className="h-8 text-slate-300 hover:bg-white/10 hover:text-white"
+      >
+        <Settings2 className="mr-1 h-4 w-4" />
+        Manage
+      </Button>
+
+      <input
+        ref={importRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) importFile(file);
+        }}
+      />
+
+      <Dialog open={dialog.mode === 'manage'} onOpenChange={(open) => !open && setDialog({ mode: 'closed' })}>
+        <DialogContent className="bg-slate-900 border-white/20 text-white max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Job Templates</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Templates are stored in this browser. Export them to share with your team.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-80 overflow-y-auto space-y-2">
+            {templates.length === 0 && <p className="text-sm text-slate-400">No templates saved yet.</p>}
+            {templates.map(template => (
+              <div
+                key={template.id}
+                className="flex items-center justify-between gap-3 bg-white/5 rounded-lg p-3 border border-white/10"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{template.name}</p>
+                  <p className="text-xs text-slate-400">
+                    {countTemplateIds(template)} IDs
+                    {template.extraJobs?.length ? ` in ${template.extraJobs.length + 1} jobs` : ''} · updated {new Date(template.updatedAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Badge variant="outline" className="border-white/20 text-white">{template.priority}</Badge>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    aria-label={`Edit ${template.name}`}
+                    onClick={() => openEditor(template, 'manage')}
+                    className="h-8 w-8 text-slate-300 hover:bg-white/10 hover:text-white"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    aria-label={`Delete ${template.name}`}
+                    onClick={() => templateStore.remove(template.id)}
+                    className="h-8 w-8 text-red-300 hover:bg-red-500/10 hover:text-red-200"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <DialogFooter className="gap-2 sm:justify-between">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => importRef.current?.click()}
+              className="border-white/20 bg-transparent text-white hover:bg-white/10"
+            >
+              <Upload className="mr-1 h-4 w-4" />
+              Import
+            </Button>
+            <Button
+              type="button"
+              disabled={templates.length === 0}
+              onClick={() => downloadJson(EXPORT_FILE_NAME, exportTemplates(templates))}
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              <Download className="mr-1 h-4 w-4" />
+              Export all
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={dialog.mode === 'edit'}
+        onOpenChange={(open) => {
+          if (!open && dialog.mode === 'edit') setDialog({ mode: dialog.returnTo });
+        }}
+      >
+        <DialogContent className="bg-slate-900 border-white/20 text-white">
+          <DialogHeader>
+            <DialogTitle>{dialog.mode === 'edit' && dialog.template ? 'Edit Template' : 'Save as Template'}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Name</Label>
+                <Input
+                  id="template-name"
+                  value={draft.name}
+                  placeholder="e.g. Nightly partners"
+                  onChange={(e) => setDraft({ name: e.target.value })}
+                  className="bg-white/5 border-white/20 text-white placeholder:text-slate-400"
+                />
+                {overwrites && (
+                  <p className="text-sm text-amber-400">Saving replaces the existing template "{overwrites.name}".</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-ids">IDs ({countIds(draft.idsInput)})</Label>
+                <Textarea
+                  id="template-ids"
+                  value={draft.idsInput}
+                  onChange={(e) => setDraft({ idsInput: e.target.value })}
+                  className="bg-white/5 border-white/20 text-white min-h-[100px] font-mono text-xs"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select value={draft.priority} onValueChange={(value) => setDraft({ priority: value as Priority })}>
+                  <SelectTrigger className="bg-white/5 border-white/20 text-white">
+                    <SelectValue placeholder="Select priority level" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-700">
+                    {policy.priorities.map(level => (
+                      <SelectItem key={level.value} value={level.value} className="text-white hover:bg-slate-700">
+                        {level.value}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {draft.extraJobs?.length ? (
+                <p className="text-sm text-slate-400">
+                  Also saves {draft.extraJobs.length} more job{draft.extraJobs.length === 1 ? '' : 's'}:{' '}
+                  {draft.extraJobs.map(row => `${countIds(row.idsInput)} IDs at ${row.priority}`).join(', ')}.
+                </p>
+              ) : null}
+              <JobMetadataSummary metadata={draft.metadata} compact />
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              type="button"
+              disabled={!draft?.name.trim() || !draft.idsInput.trim() || !draft.priority}
+              onClick={saveDraft}
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              {overwrites ? 'Replace Template' : 'Save Template'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default JobTemplates;
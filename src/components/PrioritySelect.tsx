@@ -0,0 +1,47 @@
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useEnvironment } from '@/hooks/use-environment';
+import { useValidationPolicy } from '@/hooks/use-validation-policy';
+import { PRIORITY_BADGE_COLORS } from '@/lib/validation-policy';
+import { AlertCircle } from 'lucide-react';
+
+interface PrioritySelectProps {
+  id?: string;
+  value: string;
+  disabled?: boolean;
+  onChange: (value: string) => void;
+}
+
+/** The policy's priority levels, warning when HIGH is picked for a production environment. */
+const PrioritySelect = ({ id, value, disabled, onChange }: PrioritySelectProps) => {
+  const { policy } = useValidationPolicy();
+  const { environment } = useEnvironment();
+
+  return (
+    <>
+      <Select value={value} disabled={disabled} onValueChange={onChange}>
+        <SelectTrigger id={id} className="bg-white/5 border-white/20 text-white">
+          <SelectValue placeholder="Select priority level" />
+        </SelectTrigger>
+        <SelectContent className="bg-slate-800 border-slate-700">
+          {policy.priorities.map(level => (
+            <SelectItem key={level.value} value={level.value} className="text-white hover:bg-slate-700">
+              <div className="flex items-center gap-2">
+                <Badge className={PRIORITY_BADGE_COLORS[level.value]}>{level.value}</Badge>
+                <span>{level.description}</span>
+              </div>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {environment.isProduction && value === 'HIGH' && (
+        <p className="text-sm text-red-300 flex items-center gap-2">
+          <AlertCircle className="h-4 w-4" />
+          HIGH priority jobs on {environment.label} pre-empt real production workloads.
+        </p>
+      )}
+    </>
+  );
+};
+
+export default PrioritySelect;
@@ -0,0 +1,23 @@
+import { useEnvironment } from '@/hooks/use-environment';
+import { AlertTriangle } from 'lucide-react';
+
+const ProductionBanner = () => {
+  const { environment } = useEnvironment();
+
+  if (!environment.isProduction) return null;
+
+  return (
+    <div
+      role="alert"
+      className="flex items-center justify-center gap-2 rounded-lg border-2 bg-slate-950/60 px-4 py-2 mb-6 text-sm font-semibold text-white"
+      style={{ borderColor: environment.color }}
+    >
+      <AlertTriangle className="h-4 w-4" style={{ color: environment.color }} />
+      <span>
+        You are connected to {environment.label.toUpperCase()} ({environment.baseUrl}). Jobs submitted here are real.
+      </span>
+    </div>
+  );
+};
+
+export default ProductionBanner;
@@ -0,0 +1,395 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import CronRuleEditor from '@/components/CronRuleEditor';
+import IdsEditor from '@/components/IdsEditor';
+import JobFilterInput from '@/components/JobFilterInput';
+import JobMetadataFields from '@/components/JobMetadataFields';
+import JobMetadataSummary from '@/components/JobMetadataSummary';
+import { useToast } from '@/hooks/use-toast';
+import { formatCountdown, useCountdown } from '@/hooks/use-countdown';
+import { useEnvironment } from '@/hooks/use-environment';
+import { useRecurringRuns, useRecurringSchedules } from '@/hooks/use-recurring-schedules';
+import { useValidationPolicy } from '@/hooks/use-validation-policy';
+import { buildCron, describeCron, DEFAULT_CRON_RULE, parseCron } from '@/lib/cron';
+import { validateIds } from '@/lib/id-parser';
+import { cleanMetadata, matchesJobFilter } from '@/lib/job-metadata';
+import {
+  recurringStore,
+  type RecurringRun,
+  type RecurringSchedule,
+  type RecurringScheduleDraft,
+} from '@/lib/recurring-schedules';
+import type { Priority } from '@/lib/api';
+import {
+  AlertCircle,
+  CalendarClock,
+  CheckCircle,
+  ChevronDown,
+  ChevronUp,
+  Clock,
+  ExternalLink,
+  Loader2,
+  Pencil,
+  Plus,
+  SkipForward,
+  Trash2,
+} from 'lucide-react';
+
+interface RecurringSchedulesProps {
+  onOpenJob: (ingestionId: string) => void;
+}
+
+type EditorState = { open: false } | { open: true; schedule: RecurringSchedule | null; draft: RecurringScheduleDraft };
+
+const RUN_LOG_LIMIT = 20;
+
+const isValidCron = (cron: string) => {
+  try {
+    parseCron(cron);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const RunStatus = ({ run }: { run: RecurringRun }) => {
+  switch (run.status) {
+    case 'submitting':
+      return (
+        <span className="text-yellow-300 flex items-center gap-1">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Submitting…
+        </span>
+      );
+    case 'submitted':
+      return (
+        <span className="text-green-400 flex items-center gap-1">
+          <CheckCircle className="h-4 w-4" />
+          {run.ingestionId}
+        </span>
+      );
+    case 'missed':
+      return (
+        <span className="text-slate-400 flex items-center gap-1">
+          <SkipForward className="h-4 w-4" />
+          Missed
+        </span>
+      );
+    case 'failed':
+      return (
+        <span className="text-red-300 flex items-center gap-1">
+          <AlertCircle className="h-4 w-4 text-red-400" />
+          Failed
+        </span>
+      );
+  }
+};
+
+interface RecurringScheduleRowProps {
+  schedule: RecurringSchedule;
+  runs: RecurringRun[];
+  environmentLabel: string;
+  canOpen: boolean;
+  onEdit: () => void;
+  onOpenJob: (ingestionId: string) => void;
+}
+
+const RecurringScheduleRow = ({ schedule, runs, environmentLabel, canOpen, onEdit, onOpenJob }: RecurringScheduleRowProps) => {
+  const [showRuns, setShowRuns] = useState(false);
+  const secondsLeft = useCountdown(schedule.nextRunAt ? Date.parse(schedule.nextRunAt) : null);
+
+  return (
+    <div className="bg-white/5 rounded-lg p-4 border border-white/10 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="min-w-0 space-y-1">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-white font-medium truncate">{schedule.name}</span>
+            <Badge variant="outline" className="border-white/20 text-white">{schedule.priority}</Badge>
+            <span className="text-slate-300 text-sm">{schedule.ids.length} IDs</span>
+          </div>
+          <p className="text-slate-400 text-sm">
+            {describeCron(schedule.cron)} · {environmentLabel}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {schedule.enabled && schedule.nextRunAt && (
+            <span
+              className="text-sm text-blue-300 flex items-center gap-1 font-mono"
+              title={new Date(schedule.nextRunAt).toLocaleString()}
+            >
+              <Clock className="h-4 w-4" />
+              {secondsLeft > 0 ? formatCountdown(secondsLeft) : 'due'}
+            </span>
+          )}
+          {schedule.enabled && !schedule.nextRunAt && <span className="text-sm text-amber-400">Never fires</span>}
+          <Switch
+            checked={schedule.enabled}
+            aria-label={schedule.enabled ? `Pause ${schedule.name}` : `Resume ${schedule.name}`}
+            onCheckedChange={(enabled) => recurringStore.setEnabled(schedule.id, enabled)}
+          />
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            aria-label={`Edit ${schedule.name}`}
+            onClick={onEdit}
+            className="h-8 w-8 text-slate-300 hover:bg-white/10 hover:text-white"
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            aria-label={`Delete ${schedule.name}`}
+            onClick={() => recurringStore.remove(schedule.id)}
+            className="h-8 w-8 text-red-300 hover:bg-red-500/10 hover:text-red-200"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <JobMetadataSummary metadata={schedule.metadata} compact />
+
+      <Button
+        type="button"
+        size="sm"
+        variant="ghost"
+        onClick={() => setShowRuns(!showRuns)}
+        className="h-7 px-2 text-slate-300 hover:bg-white/10 hover:text-white"
+      >
+        {showRuns ? <ChevronUp className="mr-1 h-4 w-4" /> : <ChevronDown className="mr-1 h-4 w-4" />}
+        Run log ({runs.length})
+      </Button>
+
+      {showRuns && (
+        <div className="pt-2 border-t border-white/10 space-y-2">
+          {runs.length === 0 && <p className="text-sm text-slate-400">No runs yet.</p>}
+          {runs.slice(0, RUN_LOG_LIMIT).map(run => (
+            <div key={run.id} className="text-sm space-y-1">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-slate-300 font-mono">{new Date(run.scheduledFor).toLocaleString()}</span>
+                <div className="flex items-center gap-1">
+                  <RunStatus run={run} />
+                  {run.status === 'submitted' && canOpen && run.ingestionId && (
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      aria-label="View status"
+                      onClick={() => onOpenJob(run.ingestionId as string)}
+                      className="h-7 w-7 text-slate-300 hover:bg-white/10 hover:text-white"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {run.error && <p className="text-xs text-slate-400">{run.error}</p>}
+            </div>
+          ))}
+          {runs.length > RUN_LOG_LIMIT && (
+            <p className="text-xs text-slate-400">Showing the latest {RUN_LOG_LIMIT} runs.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const RecurringSchedules = ({ onOpenJob }: RecurringSchedulesProps) => {
+  const schedules = useRecurringSchedules();
+  const runs = useRecurringRuns();
+  const { environment, environments } = useEnvironment();
+  const { policy } = useValidationPolicy();
+  const { toast } = useToast();
+  const [editor, setEditor] = useState<EditorState>({ open: false });
+  const [filter, setFilter] = useState('');
+  const visible = schedules.filter(schedule =>
+    matchesJobFilter(filter, schedule.metadata, [
+      schedule.name,
+      ...runs.filter(run => run.scheduleId === schedule.id).map(run => run.ingestionId ?? ''),
+    ]),
+  );
+
+  const draft = editor.open ? editor.draft : null;
+  const validation = draft
+    ? validateIds(draft.idsInput, { maxIds: policy.maxIdsPerJob, allowedRanges: policy.idRanges })
+    : null;
+  const canSave =
+    !!draft?.name.trim() &&
+    !!validation?.isValid &&
+    policy.priorities.some(level => level.value === draft.priority) &&
+    isValidCron(draft.cron);
+
+  const setDraft = (changes: Partial<RecurringScheduleDraft>) =>
+    setEditor(current => (current.open ? { ...current, draft: { ...current.draft, ...changes } } : current));
+
+  const openEditor = (schedule: RecurringSchedule | null) =>
+    setEditor({
+      open: true,
+      schedule,
+      draft: schedule
+        ? {
+            name: schedule.name,
+            environmentId: schedule.environmentId,
+            idsInput: schedule.idsInput,
+            ids: schedule.ids,
+            priority: schedule.priority,
+            metadata: schedule.metadata,
+            cron: schedule.cron,
+          }
+        : {
+            name: '',
+            environmentId: environment.id,
+            idsInput: '',
+            ids: [],
+            priority: '' as Priority,
+            metadata: {},
+            cron: buildCron(DEFAULT_CRON_RULE),
+          },
+    });
+
+  const save = () => {
+    if (!editor.open || !validation || !canSave) return;
+    const next = {
+      ...editor.draft,
+      name: editor.draft.name.trim(),
+      cron: editor.draft.cron.trim(),
+      ids: validation.ids,
+      metadata: cleanMetadata(editor.draft.metadata ?? {}),
+    };
+    if (editor.schedule) recurringStore.edit(editor.schedule.id, next);
+    else recurringStore.create(next);
+    toast({
+      title: "Schedule Saved",
+      description: `"${next.name}": ${describeCron(next.cron)}`,
+    });
+    setEditor({ open: false });
+  };
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-md border border-white/20 shadow-2xl">
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="space-y-1.5">
+            <CardTitle className="text-2xl text-white flex items-center gap-2">
+              <CalendarClock className="h-6 w-6" />
+              Recurring Schedules
+            </CardTitle>
+            <CardDescription className="text-slate-300">
+              Submit the same job on a repeating rule. Schedules run from this browser, so they only fire while the
+              dashboard is open; occurrences missed by more than 15 minutes are logged as missed.
+            </CardDescription>
+          </div>
+          <Button type="button" onClick={() => openEditor(null)} className="bg-blue-600 hover:bg-blue-700 text-white">
+            <Plus className="mr-1 h-4 w-4" />
+            New Schedule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {schedules.length === 0 && <p className="text-sm text-slate-400">No recurring schedules yet.</p>}
+        {schedules.length > 0 && <JobFilterInput value={filter} onChange={setFilter} />}
+        {schedules.length > 0 && visible.length === 0 && (
+          <p className="text-sm text-slate-400">No schedules match this filter.</p>
+        )}
+        {visible.map(schedule => (
+          <RecurringScheduleRow
+            key={schedule.id}
+            schedule={schedule}
+            runs={runs.filter(run => run.scheduleId === schedule.id)}
+            environmentLabel={
+              environments.find(candidate => candidate.id === schedule.environmentId)?.label ?? schedule.environmentId
+            }
+            canOpen={schedule.environmentId === environment.id}
+            onEdit={() => openEditor(schedule)}
+            onOpenJob={onOpenJob}
+          />
+        ))}
+      </CardContent>
+
+      <Dialog open={editor.open} onOpenChange={(open) => !open && setEditor({ open: false })}>
+        <DialogContent className="bg-slate-900 border-white/20 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editor.open && editor.schedule ? 'Edit Schedule' : 'New Recurring Schedule'}</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Runs against{' '}
+              {environments.find(candidate => candidate.id === draft?.environmentId)?.label ?? draft?.environmentId}.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-name">Name</Label>
+                <Input
+                  id="schedule-name"
+                  value={draft.name}
+                  placeholder="e.g. Nightly partner refresh"
+                  onChange={(e) => setDraft({ name: e.target.value })}
+                  className="bg-white/5 border-white/20 text-white placeholder:text-slate-400"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-ids">IDs ({validation?.ids.length ?? 0})</Label>
+                <IdsEditor
+                  id="schedule-ids"
+                  allowedRanges={policy.idRanges}
+                  placeholder="1-500, 720, 900..950"
+                  value={draft.idsInput}
+                  onChange={(idsInput) => setDraft({ idsInput })}
+                />
+                {draft.idsInput.trim() !== '' &&
+                  validation?.listErrors.map(error => (
+                    <p key={error} className="text-sm text-red-300 flex items-center gap-2">
+                      <AlertCircle className="h-4 w-4 text-red-400" />
+                      {error}
+                    </p>
+                  ))}
+              </div>
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select value={draft.priority} onValueChange={(value) => setDraft({ priority: value as Priority })}>
+                  <SelectTrigger className="bg-white/5 border-white/20 text-white">
+                    <SelectValue placeholder="Select priority level" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-700">
+                    {policy.priorities.map(level => (
+                      <SelectItem key={level.value} value={level.value} className="text-white hover:bg-slate-700">
+                        {level.value}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Repeats</Label>
+                <CronRuleEditor value={draft.cron} onChange={(cron) => setDraft({ cron })} />
+              </div>
+              <JobMetadataFields
+                idPrefix="schedule"
+                value={draft.metadata ?? {}}
+                onChange={(metadata) => setDraft({ metadata })}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="button" disabled={!canSave} onClick={save} className="bg-blue-600 hover:bg-blue-700 text-white">
+              Save Schedule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default RecurringSchedules;
@@ -0,0 +1,19 @@
+import type { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '@/hooks/use-auth';
+
+interface RequireAuthProps {
+  children: ReactNode;
+}
+
+const RequireAuth = ({ children }: RequireAuthProps) => {
+  const { needsLogin } = useAuth();
+  const location = useLocation();
+
+  if (needsLogin) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+  return <>{children}</>;
+};
+
+export default RequireAuth;
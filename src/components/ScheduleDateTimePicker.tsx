@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { format, startOfToday } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarClock } from 'lucide-react';
+
+interface ScheduleDateTimePickerProps {
+  value: Date | null;
+  onChange: (value: Date | null) => void;
+}
+
+const DEFAULT_TIME = '02:00';
+
+const withTime = (day: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const next = new Date(day);
+  next.setHours(hours || 0, minutes || 0, 0, 0);
+  return next;
+};
+
+/** A day from the calendar plus a time of day, in the browser's time zone. */
+const ScheduleDateTimePicker = ({ value, onChange }: ScheduleDateTimePickerProps) => {
+  const [open, setOpen] = useState(false);
+  const time = value ? format(value, 'HH:mm') : DEFAULT_TIME;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            className="w-[200px] justify-start border-white/20 bg-white/5 text-white hover:bg-white/10 hover:text-white"
+          >
+            <CalendarClock className="mr-2 h-4 w-4" />
+            {value ? format(value, 'EEE, d MMM yyyy') : 'Pick a date'}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0 bg-slate-800 border-slate-700 text-white" align="start">
+          <Calendar
+            mode="single"
+            selected={value ?? undefined}
+            disabled={{ before: startOfToday() }}
+            onSelect={(day) => {
+              onChange(day ? withTime(day, time) : null);
+              setOpen(false);
+            }}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      <Input
+        type="time"
+        aria-label="Time"
+        value={time}
+        disabled={!value}
+        onChange={(e) => value && e.target.value && onChange(withTime(value, e.target.value))}
+        className="w-[120px] bg-white/5 border-white/20 text-white"
+      />
+    </div>
+  );
+};
+
+export default ScheduleDateTimePicker;
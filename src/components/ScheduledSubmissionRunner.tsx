@@ -0,0 +1,11 @@
+import { useScheduledSubmissionRunner } from '@/hooks/use-scheduled-submissions';
+import { useRecurringScheduleRunner } from '@/hooks/use-recurring-schedules';
+
+/** Works off one-off and recurring schedules in the background; renders nothing. */
+const ScheduledSubmissionRunner = () => {
+  useScheduledSubmissionRunner();
+  useRecurringScheduleRunner();
+  return null;
+};
+
+export default ScheduledSubmissionRunner;
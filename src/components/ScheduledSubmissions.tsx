@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import JobFilterInput from '@/components/JobFilterInput';
+import JobMetadataSummary from '@/components/JobMetadataSummary';
+import ScheduleDateTimePicker from '@/components/ScheduleDateTimePicker';
+import { formatCountdown, useCountdown } from '@/hooks/use-countdown';
+import { useEnvironment } from '@/hooks/use-environment';
+import { useScheduledSubmissions } from '@/hooks/use-scheduled-submissions';
+import { useValidationPolicy } from '@/hooks/use-validation-policy';
+import { matchesJobFilter } from '@/lib/job-metadata';
+import { scheduleStore, type ScheduledSubmission } from '@/lib/scheduled-submissions';
+import type { Priority } from '@/lib/api';
+import { AlertCircle, CheckCircle, Clock, ExternalLink, Loader2, Pencil, RotateCcw, X } from 'lucide-react';
+
+interface ScheduledSubmissionsProps {
+  onOpenJob: (ingestionId: string) => void;
+}
+
+interface ScheduleRowProps {
+  schedule: ScheduledSubmission;
+  environmentLabel: string;
+  canOpen: boolean;
+  onOpenJob: (ingestionId: string) => void;
+}
+
+const ScheduleRow = ({ schedule, environmentLabel, canOpen, onOpenJob }: ScheduleRowProps) => {
+  const { policy } = useValidationPolicy();
+  const [editing, setEditing] = useState(false);
+  const [runAt, setRunAt] = useState<Date | null>(new Date(schedule.runAt));
+  const [priority, setPriority] = useState<Priority>(schedule.priority);
+  const secondsLeft = useCountdown(schedule.status === 'pending' ? Date.parse(schedule.runAt) : null);
+  const isEditable = schedule.status === 'pending' || schedule.status === 'failed';
+
+  const save = () => {
+    if (!runAt) return;
+    scheduleStore.reschedule(schedule.id, { runAt: runAt.toISOString(), priority });
+    setEditing(false);
+  };
+
+  return (
+    <div className="bg-white/5 rounded-lg p-4 border border-white/10 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <Badge variant="outline" className="border-white/20 text-white">{schedule.priority}</Badge>
+          <span className="text-white">{schedule.ids.length} IDs</span>
+          <span className="text-slate-400 text-sm">
+            {new Date(schedule.runAt).toLocaleString()} · {environmentLabel}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          {schedule.status === 'pending' && (
+            <span className="text-sm text-blue-300 flex items-center gap-1 font-mono">
+              <Clock className="h-4 w-4" />
+              {secondsLeft > 0 ? formatCountdown(secondsLeft) : 'due'}
+            </span>
+          )}
+          {schedule.status === 'submitting' && (
+            <span className="text-sm text-yellow-300 flex items-center gap-1">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Submitting…
+            </span>
+          )}
+          {schedule.status === 'submitted' && (
+            <span className="text-sm text-green-400 flex items-center gap-1">
+              <CheckCircle className="h-4 w-4" />
+              {schedule.ingestionId}
+            </span>
+          )}
+          {schedule.status === 'submitted' && canOpen && schedule.ingestionId && (
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              aria-label="View status"
+              onClick={() => onOpenJob(schedule.ingestionId as string)}
+              className="h-8 w-8 text-slate-300 hover:bg-white/10 hover:text-white"
+            >
+              <ExternalLink className="h-4 w-4" />
+            </Button>
+          )}
+          {schedule.status === 'failed' && (
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => scheduleStore.reschedule(schedule.id, { runAt: new Date().toISOString() })}
+              className="h-8 text-slate-300 hover:bg-white/10 hover:text-white"
+            >
+              <RotateCcw className="mr-1 h-4 w-4" />
+              Retry now
+            </Button>
+          )}
+          {isEditable && (
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              aria-label="Edit schedule"
+              onClick={() => setEditing(!editing)}
+              className="h-8 w-8 text-slate-300 hover:bg-white/10 hover:text-white"
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+          )}
+          {schedule.status !== 'submitting' && (
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              aria-label={schedule.status === 'pending' ? 'Cancel schedule' : 'Remove from list'}
+              onClick={() => scheduleStore.cancel(schedule.id)}
+              className="h-8 w-8 text-red-300 hover:bg-red-500/10 hover:text-red-200"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <JobMetadataSummary metadata={schedule.metadata} compact />
+
+      {schedule.status === 'failed' && schedule.error && (
+        <p className="text-sm text-red-300 flex items-center gap-2">
+          <AlertCircle className="h-4 w-4 text-red-400" />
+          {schedule.error}
+        </p>
+      )}
+
+      {editing && isEditable && (
+        <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-white/10">
+          <ScheduleDateTimePicker value={runAt} onChange={setRunAt} />
+          <Select value={priority} onValueChange={(value) => setPriority(value as Priority)}>
+            <SelectTrigger className="w-[130px] bg-white/5 border-white/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              {policy.priorities.map(level => (
+                <SelectItem key={level.value} value={level.value} className="text-white hover:bg-slate-700">
+                  {level.value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            size="sm"
+            disabled={!runAt || runAt.getTime() <= Date.now()}
+            onClick={save}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            Save
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ScheduledSubmissions = ({ onOpenJob }: ScheduledSubmissionsProps) => {
+  const schedules = useScheduledSubmissions();
+  const { environment, environments } = useEnvironment();
+  const [filter, setFilter] = useState('');
+
+  if (schedules.length === 0) return null;
+
+  const pendingCount = schedules.filter(schedule => schedule.status === 'pending').length;
+  const visible = schedules.filter(schedule =>
+    matchesJobFilter(filter, schedule.metadata, [schedule.ingestionId ?? '', schedule.priority]),
+  );
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-md border border-white/20 shadow-2xl">
+      <CardHeader>
+        <CardTitle className="text-xl text-white">Scheduled Jobs</CardTitle>
+        <CardDescription className="text-slate-300">
+          {pendingCount} pending. Scheduled jobs are submitted by this browser, so keep the dashboard open until they run.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <JobFilterInput value={filter} onChange={setFilter} />
+        {visible.length === 0 && <p className="text-sm text-slate-400">No scheduled jobs match this filter.</p>}
+        {visible.map(schedule => (
+          <ScheduleRow
+            key={schedule.id}
+            schedule={schedule}
+            environmentLabel={
+              environments.find(candidate => candidate.id === schedule.environmentId)?.label ?? schedule.environmentId
+            }
+            canOpen={schedule.environmentId === environment.id}
+            onOpenJob={onOpenJob}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScheduledSubmissions;
@@ -0,0 +1,41 @@
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, Clock, Play } from 'lucide-react';
+
+interface StatusBadgeProps {
+  status: string;
+}
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'completed':
+      return 'bg-green-500';
+    case 'triggered':
+      return 'bg-yellow-500';
+    case 'yet_to_start':
+      return 'bg-gray-500';
+    default:
+      return 'bg-gray-500';
+  }
+};
+
+const getStatusIcon = (status: string) => {
+  switch (status) {
+    case 'completed':
+      return <CheckCircle className="h-4 w-4" />;
+    case 'triggered':
+      return <Play className="h-4 w-4" />;
+    case 'yet_to_start':
+      return <Clock className="h-4 w-4" />;
+    default:
+      return <Clock className="h-4 w-4" />;
+  }
+};
+
+const StatusBadge = ({ status }: StatusBadgeProps) => (
+  <Badge className={`${getStatusColor(status)} text-white`}>
+    {getStatusIcon(status)}
+    <span className="ml-1">{status.replace('_', ' ').toUpperCase()}</span>
+  </Badge>
+);
+
+export default StatusBadge;
@@ -0,0 +1,22 @@
+import { useEffect, useMemo, type ReactNode } from 'react';
+import { createStatusSocket } from '@/lib/status-socket';
+import { StatusSocketContext } from '@/hooks/use-status-socket';
+import { useApiClient } from '@/hooks/use-api-client';
+
+interface StatusSocketProviderProps {
+  children: ReactNode;
+}
+
+const StatusSocketProvider = ({ children }: StatusSocketProviderProps) => {
+  const apiClient = useApiClient();
+  const socket = useMemo(() => {
+    const url = apiClient.statusSocketUrl();
+    return url ? createStatusSocket({ url }) : null;
+  }, [apiClient]);
+
+  useEffect(() => () => socket?.dispose(), [socket]);
+
+  return <StatusSocketContext.Provider value={socket}>{children}</StatusSocketContext.Provider>;
+};
+
+export default StatusSocketProvider;
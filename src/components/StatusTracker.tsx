@@ -1,42 +1,57 @@
 
-import { useState, useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
-import { RefreshCw, Search, Clock, CheckCircle, Play, Loader2 } from 'lucide-react';
-
-interface Batch {
-  batch_id: string;
-  ids: number[];
-  status: 'yet_to_start' | 'triggered' | 'completed';
-}
-
-interface IngestionStatus {
-  ingestion_id: string;
-  status: 'yet_to_start' | 'triggered' | 'completed';
-  batches: Batch[];
-  priority?: string;
-  created_at?: string;
-}
+import { RefreshCw, Search, Loader2, AlertTriangle } from 'lucide-react';
+import { ContractMismatchError } from '@/lib/api';
+import ContractMismatchPanel from '@/components/ContractMismatchPanel';
+import BatchList from '@/components/BatchList';
+import JobMetadataSummary from '@/components/JobMetadataSummary';
+import StatusBadge from '@/components/StatusBadge';
+import SubmissionSetStatus from '@/components/SubmissionSetStatus';
+import { useIngestionStatus } from '@/hooks/use-ingestion';
+import { useEnvironment } from '@/hooks/use-environment';
+import { getSubmissionSet, isSubmissionSetId } from '@/lib/submission-sets';
 
 interface StatusTrackerProps {
   initialIngestionId?: string;
+  onTrackIngestion?: (ingestionId: string) => void;
 }
 
-const StatusTracker = ({ initialIngestionId = '' }: StatusTrackerProps) => {
+const StatusTracker = ({ initialIngestionId = '', onTrackIngestion }: StatusTrackerProps) => {
   const [ingestionId, setIngestionId] = useState(initialIngestionId);
-  const [status, setStatus] = useState<IngestionStatus | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const [trackedId, setTrackedId] = useState(initialIngestionId.trim());
   const [autoRefresh, setAutoRefresh] = useState(false);
-  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const { toast } = useToast();
+  const { environment, environments } = useEnvironment();
+  // Submission sets only exist locally; their jobs are fetched by SubmissionSetStatus
+  const isSetId = isSubmissionSetId(trackedId);
+  const storedSet = isSetId ? getSubmissionSet(trackedId) : null;
+  // A set's jobs only exist on the backend it was submitted to; never look them up anywhere else
+  const foreignSet = storedSet && storedSet.environmentId !== environment.id ? storedSet : null;
+  const submissionSet = foreignSet ? null : storedSet;
+  const environmentLabel = (id: string) => environments.find(candidate => candidate.id === id)?.label ?? id;
+  const statusQuery = useIngestionStatus(isSetId ? '' : trackedId, { autoRefresh });
+  const { data: status, error, errorUpdatedAt, dataUpdatedAt, isFetching: isLoading, refetch, transport } = statusQuery;
+  const contractError = error instanceof ContractMismatchError ? error : null;
+  const lastUpdated = dataUpdatedAt ? new Date(dataUpdatedAt) : null;
+  // A failed refresh keeps the last good status on screen instead of wiping it
+  const isStale = !!status && !!error && !contractError;
+  const hasStatus = !!status;
+
+  const track = (nextId: string) => {
+    setIngestionId(nextId);
+    setTrackedId(nextId);
+    onTrackIngestion?.(nextId);
+  };
 
-  const fetchStatus = async () => {
-    if (!ingestionId.trim()) {
+  const fetchStatus = () => {
+    const nextId = ingestionId.trim();
+    if (!nextId) {
       toast({
         title: "Ingestion ID Required",
         description: "Please enter an ingestion ID to track",
@@ -45,81 +60,34 @@ const StatusTracker = ({ initialIngestionId = '' }: StatusTrackerProps) => {
       return;
     }
 
-    setIsLoading(true);
-    try {
-      const response = await fetch(`http://localhost:5000/status/${ingestionId}`);
-      
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new Error('Ingestion job not found');
-        }
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      setStatus(data);
-      setLastUpdated(new Date());
-      
-    } catch (error) {
-      console.error('Fetch status error:', error);
+    if (isSubmissionSetId(nextId) && !getSubmissionSet(nextId)) {
       toast({
-        title: "Failed to Fetch Status",
-        description: error instanceof Error ? error.message : "Please check the ingestion ID and try again",
+        title: "Unknown Submission Set",
+        description: `${nextId} was not created in this browser`,
         variant: "destructive",
       });
-      setStatus(null);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  // Auto-refresh effect
-  useEffect(() => {
-    let interval: NodeJS.Timeout;
-    
-    if (autoRefresh && ingestionId && status) {
-      interval = setInterval(() => {
-        fetchStatus();
-      }, 3000); // Refresh every 3 seconds
-    }
-
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [autoRefresh, ingestionId, status]);
-
-  // Load initial status if ingestionId is provided
-  useEffect(() => {
-    if (initialIngestionId) {
-      fetchStatus();
+      return;
     }
-  }, [initialIngestionId]);
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'completed':
-        return 'bg-green-500';
-      case 'triggered':
-        return 'bg-yellow-500';
-      case 'yet_to_start':
-        return 'bg-gray-500';
-      default:
-        return 'bg-gray-500';
+    onTrackIngestion?.(nextId);
+    if (nextId === trackedId) {
+      if (!isSetId) refetch();
+    } else {
+      setTrackedId(nextId);
     }
   };
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'completed':
-        return <CheckCircle className="h-4 w-4" />;
-      case 'triggered':
-        return <Play className="h-4 w-4" />;
-      case 'yet_to_start':
-        return <Clock className="h-4 w-4" />;
-      default:
-        return <Clock className="h-4 w-4" />;
-    }
-  };
+  // Only toast when there's nothing to show; contract mismatches get their own
+  // panel and failed refreshes mark the existing status as stale instead
+  useEffect(() => {
+    if (!error || error instanceof ContractMismatchError || hasStatus) return;
+    console.error('Fetch status error:', error);
+    toast({
+      title: "Failed to Fetch Status",
+      description: error.message || "Please check the ingestion ID and try again",
+      variant: "destructive",
+    });
+  }, [error, errorUpdatedAt, hasStatus, toast]);
 
   const calculateProgress = () => {
     if (!status?.batches.length) return 0;
@@ -141,7 +109,7 @@ const StatusTracker = ({ initialIngestionId = '' }: StatusTrackerProps) => {
         <CardHeader>
           <CardTitle className="text-xl text-white">Track Ingestion Status</CardTitle>
           <CardDescription className="text-slate-300">
-            Enter an ingestion ID to monitor the real-time status of your data processing job
+            Enter an ingestion ID or submission set ID to monitor the real-time status of your data processing job
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -170,7 +138,7 @@ const StatusTracker = ({ initialIngestionId = '' }: StatusTrackerProps) => {
                   <Search className="h-4 w-4" />
                 )}
               </Button>
-              {status && (
+              {(status || submissionSet) && (
                 <Button
                   onClick={() => setAutoRefresh(!autoRefresh)}
                   variant={autoRefresh ? "default" : "outline"}
@@ -185,24 +153,47 @@ const StatusTracker = ({ initialIngestionId = '' }: StatusTrackerProps) => {
           {lastUpdated && (
             <p className="text-xs text-slate-400">
               Last updated: {lastUpdated.toLocaleTimeString()}
-              {autoRefresh && <span className="ml-2">(Auto-refreshing)</span>}
+              {autoRefresh && (
+                <span className="ml-2">
+                  {transport === 'socket' && '(Live via socket)'}
+                  {transport === 'stream' && '(Live via stream)'}
+                  {transport === 'poll' && '(Auto-refreshing via polling)'}
+                </span>
+              )}
+              {isStale && (
+                <span className="ml-2 inline-flex items-center gap-1 text-amber-400">
+                  <AlertTriangle className="h-3 w-3" />
+                  Stale: last refresh failed ({error.message})
+                </span>
+              )}
             </p>
           )}
         </CardContent>
       </Card>
 
+      {contractError && <ContractMismatchPanel error={contractError} />}
+
+      {foreignSet && (
+        <div className="flex items-center gap-2 bg-amber-500/10 border border-amber-500/20 rounded-lg p-3 text-sm text-amber-300">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          Submission set {foreignSet.id} was submitted to {environmentLabel(foreignSet.environmentId)}, not{' '}
+          {environment.label}. Switch to {environmentLabel(foreignSet.environmentId)} to track its jobs.
+        </div>
+      )}
+
+      {submissionSet && (
+        <SubmissionSetStatus submissionSet={submissionSet} autoRefresh={autoRefresh} onOpenJob={track} />
+      )}
+
       {/* Status Display */}
-      {status && (
-        <div className="space-y-6">
+      {status && !contractError && (
+        <div className={`space-y-6 transition-opacity ${isStale ? 'opacity-60' : ''}`}>
           {/* Overall Status */}
           <Card className="bg-white/10 backdrop-blur-md border border-white/20 shadow-2xl">
             <CardHeader>
               <div className="flex items-center justify-between">
                 <CardTitle className="text-xl text-white">Job Overview</CardTitle>
-                <Badge className={`${getStatusColor(status.status)} text-white`}>
-                  {getStatusIcon(status.status)}
-                  <span className="ml-1">{status.status.replace('_', ' ').toUpperCase()}</span>
-                </Badge>
+                <StatusBadge status={status.status} />
               </div>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -221,6 +212,8 @@ const StatusTracker = ({ initialIngestionId = '' }: StatusTrackerProps) => {
                 </div>
               </div>
 
+              <JobMetadataSummary metadata={status} />
+
               {/* Progress Bar */}
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
@@ -246,40 +239,7 @@ const StatusTracker = ({ initialIngestionId = '' }: StatusTrackerProps) => {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="space-y-4">
-                {status.batches.map((batch, index) => (
-                  <div
-                    key={batch.batch_id}
-                    className="bg-white/5 rounded-lg p-4 border border-white/10 hover:bg-white/10 transition-all duration-200"
-                  >
-                    <div className="flex items-center justify-between mb-3">
-                      <div className="flex items-center gap-3">
-                        <div className="text-lg font-bold text-white">
-                          Batch {index + 1}
-                        </div>
-                        <Badge className={`${getStatusColor(batch.status)} text-white`}>
-                          {getStatusIcon(batch.status)}
-                          <span className="ml-1">{batch.status.replace('_', ' ').toUpperCase()}</span>
-                        </Badge>
-                      </div>
-                      <span className="text-slate-400 text-sm font-mono">
-                        {batch.batch_id}
-                      </span>
-                    </div>
-                    
-                    <div>
-                      <p className="text-slate-400 text-sm mb-2">Processing IDs:</p>
-                      <div className="flex flex-wrap gap-2">
-                        {batch.ids.map(id => (
-                          <Badge key={id} variant="outline" className="border-white/20 text-white">
-                            {id}
-                          </Badge>
-                        ))}
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
+              <BatchList batches={status.batches} />
             </CardContent>
           </Card>
         </div>
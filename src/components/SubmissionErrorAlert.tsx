@@ -0,0 +1,65 @@
+import { Button } from '@/components/ui/button';
+import { useCountdown } from '@/hooks/use-countdown';
+import type { SubmissionError } from '@/lib/submission-errors';
+import { AlertCircle, Clock, RefreshCw } from 'lucide-react';
+
+interface SubmissionErrorAlertProps {
+  error: SubmissionError;
+  onRetry?: () => void;
+  isRetrying?: boolean;
+}
+
+const TITLES: Record<SubmissionError['kind'], string> = {
+  validation: 'The backend rejected this job',
+  conflict: 'This job conflicts with an existing one',
+  too_many_ids: 'Too many IDs for one job',
+  rate_limited: 'Too many submissions',
+  unauthorized: 'Not authorized',
+  server: 'Submission failed',
+  contract: 'Unexpected response',
+  unknown: 'Submission failed',
+};
+
+const SubmissionErrorAlert = ({ error, onRetry, isRetrying = false }: SubmissionErrorAlertProps) => {
+  const retryIn = useCountdown(error.kind === 'rate_limited' ? error.retryAt : null);
+
+  return (
+    <div role="alert" className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 space-y-2">
+      <div className="flex items-center gap-2 text-red-400 font-medium">
+        <AlertCircle className="h-4 w-4" />
+        {TITLES[error.kind]}
+      </div>
+      <p className="text-red-300 text-sm">{error.message}</p>
+
+      {error.kind === 'conflict' && error.ingestionId && (
+        <p className="text-red-300 text-sm">
+          Existing ingestion: <span className="font-mono">{error.ingestionId}</span>
+        </p>
+      )}
+      {error.kind === 'too_many_ids' && error.maxIds !== undefined && (
+        <p className="text-red-300 text-sm">The backend accepts at most {error.maxIds} IDs per job.</p>
+      )}
+      {error.kind === 'rate_limited' && (
+        <p className="text-red-300 text-sm flex items-center gap-2">
+          <Clock className="h-4 w-4" />
+          {retryIn > 0 ? `You can submit again in ${retryIn}s` : 'You can submit again now'}
+        </p>
+      )}
+      {error.kind === 'server' && onRetry && (
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={onRetry}
+          disabled={isRetrying}
+          className="border-red-400/40 text-red-200 hover:bg-red-500/20"
+        >
+          <RefreshCw className={`mr-2 h-3 w-3 ${isRetrying ? 'animate-spin' : ''}`} />
+          Retry submission
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default SubmissionErrorAlert;
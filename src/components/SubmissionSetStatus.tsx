@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import JobFilterInput from '@/components/JobFilterInput';
+import JobMetadataSummary from '@/components/JobMetadataSummary';
+import StatusBadge from '@/components/StatusBadge';
+import { useIngestionStatuses } from '@/hooks/use-ingestion';
+import { matchesJobFilter } from '@/lib/job-metadata';
+import type { SubmissionSet } from '@/lib/submission-sets';
+import type { BatchStatus } from '@/lib/api';
+import { ChevronRight, Layers, Loader2 } from 'lucide-react';
+
+interface SubmissionSetStatusProps {
+  submissionSet: SubmissionSet;
+  autoRefresh: boolean;
+  onOpenJob: (ingestionId: string) => void;
+}
+
+const SubmissionSetStatus = ({ submissionSet, autoRefresh, onOpenJob }: SubmissionSetStatusProps) => {
+  const [filter, setFilter] = useState('');
+  const { queries } = useIngestionStatuses(submissionSet.ingestionIds, { autoRefresh });
+  const statuses = queries.map(query => query.data);
+  const batches = statuses.flatMap(status => status?.batches ?? []);
+  const completedBatches = batches.filter(batch => batch.status === 'completed').length;
+  const progress = batches.length ? (completedBatches / batches.length) * 100 : 0;
+  const loaded = statuses.filter(Boolean);
+  // Each job's own metadata once its status has loaded, the set's copy until then
+  const jobs = submissionSet.ingestionIds
+    .map((ingestionId, index) => ({ ingestionId, index, metadata: statuses[index] ?? submissionSet.metadata }))
+    .filter(({ ingestionId, index, metadata }) =>
+      matchesJobFilter(filter, metadata, [
+        ingestionId,
+        submissionSet.jobPriorities?.[index] ?? submissionSet.priority,
+      ]),
+    );
+
+  let overall: BatchStatus = 'yet_to_start';
+  if (loaded.length === submissionSet.chunkCount && loaded.every(status => status.status === 'completed')) {
+    overall = 'completed';
+  } else if (loaded.some(status => status.status !== 'yet_to_start')) {
+    overall = 'triggered';
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white/10 backdrop-blur-md border border-white/20 shadow-2xl">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-xl text-white flex items-center gap-2">
+              <Layers className="h-5 w-5" />
+              Submission Set
+            </CardTitle>
+            <StatusBadge status={overall} />
+          </div>
+          <CardDescription className="text-slate-300">
+            {submissionSet.jobPriorities
+              ? `${submissionSet.totalIds} IDs in ${submissionSet.chunkCount} jobs at ${[...new Set(submissionSet.jobPriorities)].join(', ')} priority`
+              : `${submissionSet.totalIds} IDs split into ${submissionSet.chunkCount} jobs at ${submissionSet.priority} priority`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
+            <div className="bg-white/5 rounded-lg p-4">
+              <p className="text-slate-400 text-sm">Set ID</p>
+              <p className="text-white font-mono text-lg">{submissionSet.id}</p>
+            </div>
+            <div className="bg-white/5 rounded-lg p-4">
+              <p className="text-slate-400 text-sm">Jobs Submitted</p>
+              <p className="text-white font-bold text-lg">
+                {submissionSet.ingestionIds.length} / {submissionSet.chunkCount}
+              </p>
+            </div>
+            <div className="bg-white/5 rounded-lg p-4">
+              <p className="text-slate-400 text-sm">Overall Progress</p>
+              <p className="text-white font-bold text-lg">{progress.toFixed(0)}%</p>
+            </div>
+          </div>
+
+          <JobMetadataSummary metadata={submissionSet.metadata} />
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-slate-400">Progress</span>
+              <span className="text-white">{completedBatches} / {batches.length} batches completed</span>
+            </div>
+            <div className="bg-white/10 rounded-full h-3 overflow-hidden">
+              <div
+                className={`h-full transition-all duration-500 ${progress === 100 ? 'bg-green-500' : progress > 0 ? 'bg-yellow-500' : 'bg-gray-500'}`}
+                style={{ width: `${progress}%` }}
+              />
+            </div>
+          </div>
+
+          {submissionSet.ingestionIds.length < submissionSet.chunkCount && (
+            <p className="text-sm text-amber-400">
+              {submissionSet.chunkCount - submissionSet.ingestionIds.length} chunk(s) were never submitted.
+              Resubmit the remaining IDs from the form to complete the set.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white/10 backdrop-blur-md border border-white/20 shadow-2xl">
+        <CardHeader>
+          <CardTitle className="text-xl text-white">Jobs in this Set</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {submissionSet.ingestionIds.length > 1 && <JobFilterInput value={filter} onChange={setFilter} />}
+          {jobs.length === 0 && <p className="text-sm text-slate-400">No jobs in this set match this filter.</p>}
+          {jobs.map(({ ingestionId, index, metadata }) => {
+            const { data: status, isLoading, error } = queries[index];
+            const jobBatches = status?.batches ?? [];
+            const done = jobBatches.filter(batch => batch.status === 'completed').length;
+            return (
+              <div key={ingestionId} className="bg-white/5 rounded-lg p-4 border border-white/10 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <span className="text-white font-bold">Job {index + 1}</span>
+                    <span className="text-slate-400 text-sm font-mono">{ingestionId}</span>
+                    {submissionSet.jobPriorities && (
+                      <Badge variant="outline" className="border-white/20 text-white">
+                        {submissionSet.jobPriorities[index]}
+                      </Badge>
+                    )}
+                    {status && <StatusBadge status={status.status} />}
+                    {isLoading && <Loader2 className="h-4 w-4 animate-spin text-slate-400" />}
+                    {error && !status && (
+                      <Badge variant="outline" className="border-red-400/40 text-red-300">{error.message}</Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {status && (
+                      <span className="text-slate-300 text-sm">{done} / {jobBatches.length} batches</span>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => onOpenJob(ingestionId)}
+                      className="text-white hover:bg-white/10"
+                    >
+                      Details
+                      <ChevronRight className="ml-1 h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <JobMetadataSummary metadata={metadata} compact />
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SubmissionSetStatus;
@@ -0,0 +1,11 @@
+import { useMemo } from 'react';
+import { createEnvironmentClient } from '@/lib/environment-client';
+import { useEnvironment } from '@/hooks/use-environment';
+import { useAuth } from '@/hooks/use-auth';
+
+/** API client bound to the currently selected environment profile. */
+export function useApiClient() {
+  const { environment } = useEnvironment();
+  const { session } = useAuth();
+  return useMemo(() => createEnvironmentClient(environment, session), [environment, session]);
+}
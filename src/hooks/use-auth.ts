@@ -0,0 +1,23 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { authStore, type AuthSession } from '@/lib/auth';
+import { useEnvironment } from '@/hooks/use-environment';
+
+/** Sign-in state for the currently selected environment profile. */
+export function useAuth() {
+  const { environment } = useEnvironment();
+  const subscribe = useCallback(
+    (listener: () => void) => authStore.subscribe(environment.id, listener),
+    [environment.id],
+  );
+  const { session, required } = useSyncExternalStore(subscribe, () => authStore.get(environment.id));
+
+  const signIn = useCallback((next: AuthSession) => authStore.signIn(environment.id, next), [environment.id]);
+  const signOut = useCallback(() => authStore.signOut(environment.id), [environment.id]);
+
+  return {
+    session,
+    needsLogin: !session && (required || !!environment.auth),
+    signIn,
+    signOut,
+  };
+}
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { getCircuitBreaker } from '@/lib/circuit-breaker';
+import { useEnvironment } from '@/hooks/use-environment';
+
+/** Health of the currently selected backend, as seen by its circuit breaker. */
+export function useConnectionHealth() {
+  const { environment } = useEnvironment();
+  const breaker = getCircuitBreaker(environment.baseUrl);
+  return useSyncExternalStore(breaker.subscribe, breaker.getSnapshot);
+}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+
+/** Whole seconds left until `target` (epoch ms), ticking once a second; 0 once passed or when null. */
+export function useCountdown(target: number | null) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (target === null) return;
+    setNow(Date.now());
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= target) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [target]);
+
+  return target === null ? 0 : Math.max(0, Math.ceil((target - now) / 1000));
+}
+
+/** "2d 4h 05m", "1h 05m 09s" or "4m 09s". */
+export const formatCountdown = (seconds: number) => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  if (days > 0) return `${days}d ${hours}h ${pad(minutes)}m`;
+  if (hours > 0) return `${hours}h ${pad(minutes)}m ${pad(seconds % 60)}s`;
+  return `${minutes}m ${pad(seconds % 60)}s`;
+};
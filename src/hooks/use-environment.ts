@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import type { EnvironmentProfile } from '@/lib/environments';
+
+export interface EnvironmentContextValue {
+  environment: EnvironmentProfile;
+  environments: EnvironmentProfile[];
+  setEnvironment: (id: string) => void;
+}
+
+export const EnvironmentContext = createContext<EnvironmentContextValue | null>(null);
+
+export function useEnvironment() {
+  const context = useContext(EnvironmentContext);
+  if (!context) {
+    throw new Error('useEnvironment must be used within an EnvironmentProvider');
+  }
+  return context;
+}
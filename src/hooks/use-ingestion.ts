@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { queryOptions, useMutation, useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
+import { isTransientError, type IngestRequest } from '@/lib/api';
+import { createIdempotencyKey, submissionFingerprint } from '@/lib/idempotency';
+import { backoffDelay } from '@/lib/query-client';
+import { ingestionKeys } from '@/lib/query-keys';
+import { getCircuitBreaker } from '@/lib/circuit-breaker';
+import { useApiClient } from '@/hooks/use-api-client';
+import { useEnvironment } from '@/hooks/use-environment';
+import { useStatusStream, type StatusTransport } from '@/hooks/use-status-stream';
+import { useStatusSubscription } from '@/hooks/use-status-socket';
+
+export const STATUS_REFRESH_INTERVAL = 3000;
+const MAX_REFRESH_BACKOFF_STEPS = 4;
+const MAX_SUBMIT_RETRIES = 2;
+
+interface UseIngestionStatusOptions {
+  autoRefresh?: boolean;
+}
+
+export function useIngestionStatus(ingestionId: string, { autoRefresh = false }: UseIngestionStatusOptions = {}) {
+  const apiClient = useApiClient();
+  const { environment } = useEnvironment();
+  // Prefer the shared socket; per-job SSE and then polling are fallbacks
+  const socketLive = useStatusSubscription([ingestionId], autoRefresh);
+  const streamTransport = useStatusStream(ingestionId, autoRefresh && !socketLive);
+  const transport: StatusTransport = socketLive ? 'socket' : streamTransport;
+
+  const query = useQuery({
+    queryKey: ingestionKeys.status(environment.id, ingestionId),
+    // Consuming the signal lets React Query abort the request once nobody is
+    // watching this ID any more (ID changed, view unmounted, refetch superseded it)
+    queryFn: ({ signal }) => apiClient.getStatus(ingestionId, { signal }),
+    enabled: ingestionId !== '',
+    // Pushed updates make polling redundant, and completed jobs never change again
+    refetchInterval: query => {
+      if (!autoRefresh || transport !== 'poll' || query.state.data?.status === 'completed') return false;
+      // Slow down while the backend is failing; back to normal after the first success
+      const { consecutiveFailures } = getCircuitBreaker(environment.baseUrl).getSnapshot();
+      return STATUS_REFRESH_INTERVAL * 2 ** Math.min(consecutiveFailures, MAX_REFRESH_BACKOFF_STEPS);
+    },
+  });
+
+  return { ...query, transport };
+}
+
+/**
+ * Status of several jobs at once, e.g. every job of a submission set. Push
+ * updates arrive over the shared socket; without it each job is polled.
+ */
+export function useIngestionStatuses(ingestionIds: string[], { autoRefresh = false }: UseIngestionStatusOptions = {}) {
+  const apiClient = useApiClient();
+  const { environment } = useEnvironment();
+  const socketLive = useStatusSubscription(ingestionIds, autoRefresh);
+  const transport: StatusTransport = socketLive ? 'socket' : 'poll';
+
+  const queries = useQueries({
+    queries: ingestionIds.map(ingestionId => queryOptions({
+      queryKey: ingestionKeys.status(environment.id, ingestionId),
+      queryFn: ({ signal }) => apiClient.getStatus(ingestionId, { signal }),
+      refetchInterval: query => {
+        if (!autoRefresh || socketLive || query.state.data?.status === 'completed') return false;
+        const { consecutiveFailures } = getCircuitBreaker(environment.baseUrl).getSnapshot();
+        return STATUS_REFRESH_INTERVAL * 2 ** Math.min(consecutiveFailures, MAX_REFRESH_BACKOFF_STEPS);
+      },
+    })),
+  });
+
+  return { queries, transport };
+}
+
+export function useSubmitIngestion() {
+  const apiClient = useApiClient();
+  const { environment } = useEnvironment();
+  const queryClient = useQueryClient();
+  const controllerRef = useRef<AbortController | null>(null);
+  // Key of the latest submission that hasn't succeeded yet. Retrying the same
+  // IDs and priority reuses it, so the backend can drop the duplicate.
+  const attemptRef = useRef<{ fingerprint: string; key: string } | null>(null);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  // Abandon an in-flight submission when the form goes away
+  useEffect(() => cancel, [cancel]);
+
+  const mutation = useMutation({
+    mutationFn: (payload: IngestRequest) => {
+      cancel();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
+      const fingerprint = submissionFingerprint(payload);
+      if (attemptRef.current?.fingerprint !== fingerprint) {
+        attemptRef.current = { fingerprint, key: createIdempotencyKey() };
+      }
+      return apiClient.submitIngestion(payload, {
+        signal: controller.signal,
+        idempotencyKey: attemptRef.current.key,
+      });
+    },
+    // Safe now that retries carry the same idempotency key
+    retry: (failureCount, error) => isTransientError(error) && failureCount < MAX_SUBMIT_RETRIES,
+    retryDelay: attempt => backoffDelay(attempt),
+    onSuccess: ({ ingestion_id }) => {
+      attemptRef.current = null;
+      return queryClient.invalidateQueries({ queryKey: ingestionKeys.status(environment.id, ingestion_id) });
+    },
+  });
+
+  return { ...mutation, cancel };
+}
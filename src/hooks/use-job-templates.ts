@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { templateStore } from '@/lib/job-templates';
+
+/** Saved job templates, sorted by name; updates when any component changes them. */
+export function useJobTemplates() {
+  return useSyncExternalStore(templateStore.subscribe, templateStore.list);
+}
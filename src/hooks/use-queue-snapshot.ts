@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { ingestionKeys } from '@/lib/query-keys';
+import { toQueueSnapshot } from '@/lib/batch-preview';
+import { useApiClient } from '@/hooks/use-api-client';
+import { useEnvironment } from '@/hooks/use-environment';
+
+/**
+ * The backend's processing queue, fetched while `enabled` (e.g. while a
+ * preview is open). `queue` is null while loading and for backends that
+ * don't expose `GET /queue`.
+ */
+export function useQueueSnapshot(enabled: boolean) {
+  const apiClient = useApiClient();
+  const { environment } = useEnvironment();
+
+  const query = useQuery({
+    queryKey: ingestionKeys.queue(environment.id),
+    queryFn: async ({ signal }) => toQueueSnapshot(await apiClient.getQueue({ signal })),
+    enabled,
+    staleTime: 0,
+  });
+
+  return {
+    queue: query.data ?? null,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    dataUpdatedAt: query.dataUpdatedAt,
+    refetch: query.refetch,
+  };
+}
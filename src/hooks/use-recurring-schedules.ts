@@ -0,0 +1,76 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { useEnvironment } from '@/hooks/use-environment';
+import { createEnvironmentClient } from '@/lib/environment-client';
+import { classifySubmissionError } from '@/lib/submission-errors';
+import {
+  occurrenceIdempotencyKey,
+  recurringStore,
+  type RecurringSchedule,
+} from '@/lib/recurring-schedules';
+import type { EnvironmentProfile } from '@/lib/environments';
+
+const RECURRING_CHECK_INTERVAL = 1000;
+
+/** Recurring schedules in the order they were created. */
+export function useRecurringSchedules() {
+  return useSyncExternalStore(recurringStore.subscribe, recurringStore.list);
+}
+
+/** Every logged occurrence, newest first. */
+export function useRecurringRuns() {
+  return useSyncExternalStore(recurringStore.subscribe, recurringStore.runs);
+}
+
+const runOccurrence = async (schedule: RecurringSchedule, environment: EnvironmentProfile | undefined) => {
+  const run = recurringStore.claimOccurrence(schedule.id);
+  if (!run) return;
+  if (!environment) {
+    recurringStore.markRunFailed(run.id, `Environment "${schedule.environmentId}" is no longer configured`);
+    return;
+  }
+
+  try {
+    const { ingestion_id } = await createEnvironmentClient(environment).submitIngestion(
+      { ids: schedule.ids, priority: schedule.priority, ...schedule.metadata },
+      { idempotencyKey: occurrenceIdempotencyKey(run) },
+    );
+    recurringStore.markRunSubmitted(run.id, ingestion_id);
+    toast({
+      title: "Recurring Job Submitted",
+      description: `"${schedule.name}" ran on ${environment.label} as ${ingestion_id}`,
+    });
+  } catch (error) {
+    console.error('Recurring submission error:', error);
+    const { message } = classifySubmissionError(error);
+    recurringStore.markRunFailed(run.id, message);
+    toast({
+      title: "Recurring Job Failed",
+      description: `"${schedule.name}": ${message}`,
+      variant: "destructive",
+    });
+  }
+};
+
+/** Submits each enabled recurring schedule when its next occurrence comes due. */
+export function useRecurringScheduleRunner() {
+  const schedules = useRecurringSchedules();
+  const { environments } = useEnvironment();
+  const hasEnabled = schedules.some(schedule => schedule.enabled && schedule.nextRunAt);
+
+  useEffect(() => {
+    if (!hasEnabled) return;
+    const check = () => {
+      const now = Date.now();
+      recurringStore
+        .list()
+        .filter(schedule => schedule.enabled && schedule.nextRunAt && Date.parse(schedule.nextRunAt) <= now)
+        .forEach(schedule =>
+          runOccurrence(schedule, environments.find(environment => environment.id === schedule.environmentId)),
+        );
+    };
+    check();
+    const interval = setInterval(check, RECURRING_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [environments, hasEnabled]);
+}
@@ -0,0 +1,69 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { useEnvironment } from '@/hooks/use-environment';
+import { createEnvironmentClient } from '@/lib/environment-client';
+import { classifySubmissionError } from '@/lib/submission-errors';
+import { isDue, scheduleStore, type ScheduledSubmission } from '@/lib/scheduled-submissions';
+import type { EnvironmentProfile } from '@/lib/environments';
+
+const SCHEDULE_CHECK_INTERVAL = 1000;
+
+/** The scheduled submission queue, pending ones first in the order they will run. */
+export function useScheduledSubmissions() {
+  return useSyncExternalStore(scheduleStore.subscribe, scheduleStore.list);
+}
+
+const runSchedule = async (schedule: ScheduledSubmission, environment: EnvironmentProfile | undefined) => {
+  if (!scheduleStore.claim(schedule.id)) return;
+  if (!environment) {
+    scheduleStore.markFailed(schedule.id, `Environment "${schedule.environmentId}" is no longer configured`);
+    return;
+  }
+
+  try {
+    const { ingestion_id } = await createEnvironmentClient(environment).submitIngestion(
+      { ids: schedule.ids, priority: schedule.priority, ...schedule.metadata },
+      { idempotencyKey: schedule.idempotencyKey },
+    );
+    scheduleStore.markSubmitted(schedule.id, ingestion_id);
+    toast({
+      title: "Scheduled Job Submitted",
+      description: `${schedule.ids.length} IDs sent to ${environment.label} as ${ingestion_id}`,
+    });
+  } catch (error) {
+    console.error('Scheduled submission error:', error);
+    const { message } = classifySubmissionError(error);
+    scheduleStore.markFailed(schedule.id, message);
+    toast({
+      title: "Scheduled Job Failed",
+      description: message,
+      variant: "destructive",
+    });
+  }
+};
+
+/**
+ * Submits scheduled jobs once they are due. Mounted once for the whole app;
+ * jobs whose time passed long before a tab was open again are marked missed
+ * instead (see `scheduleStore.claim`).
+ */
+export function useScheduledSubmissionRunner() {
+  const schedules = useScheduledSubmissions();
+  const { environments } = useEnvironment();
+  const hasPending = schedules.some(schedule => schedule.status === 'pending');
+
+  useEffect(() => {
+    if (!hasPending) return;
+    const check = () => {
+      scheduleStore
+        .list()
+        .filter(schedule => isDue(schedule))
+        .forEach(schedule =>
+          runSchedule(schedule, environments.find(environment => environment.id === schedule.environmentId)),
+        );
+    };
+    check();
+    const interval = setInterval(check, SCHEDULE_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [environments, hasPending]);
+}
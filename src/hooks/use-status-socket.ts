@@ -0,0 +1,48 @@
+import { createContext, useContext, useEffect, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { StatusSocket } from '@/lib/status-socket';
+import { ingestionKeys } from '@/lib/query-keys';
+import { useEnvironment } from '@/hooks/use-environment';
+
+const NO_PROVIDER = Symbol('no-provider');
+
+// Provided as null when the backend has no socket endpoint (e.g. the simulated one)
+export const StatusSocketContext = createContext<StatusSocket | null | typeof NO_PROVIDER>(NO_PROVIDER);
+
+const noSubscribe = () => () => {};
+const idleState = () => 'idle' as const;
+
+/** The shared status socket, or null when the current backend doesn't offer one. */
+export function useStatusSocket() {
+  const socket = useContext(StatusSocketContext);
+  if (socket === NO_PROVIDER) {
+    throw new Error('useStatusSocket must be used within a StatusSocketProvider');
+  }
+  return socket;
+}
+
+/**
+ * Subscribes to push updates for every given ingestion ID over the shared
+ * socket and writes them into the status query cache. Returns whether the
+ * socket is currently connected, i.e. whether the updates are actually live.
+ */
+export function useStatusSubscription(ingestionIds: string[], enabled = true) {
+  const socket = useStatusSocket();
+  const queryClient = useQueryClient();
+  const { environment } = useEnvironment();
+  const state = useSyncExternalStore(socket?.onStateChange ?? noSubscribe, socket?.getState ?? idleState);
+  // A stable primitive key so callers can pass a fresh array every render
+  const idsKey = [...new Set(ingestionIds.filter(Boolean))].sort().join('\n');
+
+  useEffect(() => {
+    if (!socket || !enabled || !idsKey) return;
+    const unsubscribes = idsKey.split('\n').map(ingestionId =>
+      socket.subscribe(ingestionId, status => {
+        queryClient.setQueryData(ingestionKeys.status(environment.id, ingestionId), status);
+      }),
+    );
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [enabled, environment.id, idsKey, queryClient, socket]);
+
+  return enabled && idsKey !== '' && state === 'open';
+}
@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { ingestionStatusSchema } from '@/lib/schemas';
+import { ingestionKeys } from '@/lib/query-keys';
+import { useApiClient } from '@/hooks/use-api-client';
+import { useEnvironment } from '@/hooks/use-environment';
+
+export type StatusTransport = 'socket' | 'stream' | 'poll';
+
+/**
+ * Subscribes to `/status/:id/stream` and writes every pushed update into the
+ * status query cache. Reports `'poll'` once the stream turns out to be
+ * unavailable so the caller can fall back to interval refetching.
+ */
+export function useStatusStream(ingestionId: string, enabled: boolean): Exclude<StatusTransport, 'socket'> {
+  const apiClient = useApiClient();
+  const { environment } = useEnvironment();
+  const queryClient = useQueryClient();
+  const [unavailableFor, setUnavailableFor] = useState<string | null>(null);
+  const streamKey = `${environment.id}:${ingestionId}`;
+  const streamUnavailable = unavailableFor === streamKey;
+  const streamUrl = ingestionId ? apiClient.statusStreamUrl(ingestionId) : null;
+  const canStream = enabled && streamUrl !== null && typeof EventSource !== 'undefined';
+
+  useEffect(() => {
+    if (!canStream || streamUnavailable) return;
+
+    const source = new EventSource(streamUrl);
+    let opened = false;
+
+    const fallBack = (reason: string) => {
+      console.warn(`Status stream for ${ingestionId} unavailable, falling back to polling: ${reason}`);
+      source.close();
+      setUnavailableFor(streamKey);
+    };
+
+    source.onopen = () => {
+      opened = true;
+    };
+
+    source.onmessage = event => {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(event.data);
+      } catch {
+        fallBack('malformed event data');
+        return;
+      }
+      const result = ingestionStatusSchema.safeParse(payload);
+      if (!result.success || result.data.ingestion_id !== ingestionId) {
+        // Polling goes through the regular client, which reports the mismatch properly
+        fallBack('event does not match the status contract');
+        return;
+      }
+      queryClient.setQueryData(ingestionKeys.status(environment.id, ingestionId), result.data);
+      if (result.data.status === 'completed') {
+        source.close();
+      }
+    };
+
+    source.onerror = () => {
+      // EventSource reconnects on its own after a drop; only give up if it never
+      // connected or the browser has stopped retrying.
+      if (!opened || source.readyState === EventSource.CLOSED) {
+        fallBack(opened ? 'connection closed' : 'could not connect');
+      }
+    };
+
+    return () => source.close();
+  }, [canStream, environment.id, ingestionId, queryClient, streamKey, streamUnavailable, streamUrl]);
+
+  return canStream && !streamUnavailable ? 'stream' : 'poll';
+}
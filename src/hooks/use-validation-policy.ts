@@ -0,0 +1,26 @@
+import { useQuery } from '@tanstack/react-query';
+import { ingestionKeys } from '@/lib/query-keys';
+import { DEFAULT_VALIDATION_POLICY, toValidationPolicy } from '@/lib/validation-policy';
+import { useApiClient } from '@/hooks/use-api-client';
+import { useEnvironment } from '@/hooks/use-environment';
+
+/**
+ * The backend's validation policy, fetched once per environment. Falls back to
+ * the built-in defaults while loading and when the backend doesn't offer one.
+ */
+export function useValidationPolicy() {
+  const apiClient = useApiClient();
+  const { environment } = useEnvironment();
+
+  const query = useQuery({
+    queryKey: ingestionKeys.policy(environment.id),
+    queryFn: async ({ signal }) => toValidationPolicy(await apiClient.getValidationPolicy({ signal })),
+    staleTime: Infinity,
+  });
+
+  return {
+    policy: query.data ?? DEFAULT_VALIDATION_POLICY,
+    isFromServer: !!query.data,
+    isLoading: query.isLoading,
+  };
+}
@@ -0,0 +1,272 @@
+import type { ZodType } from 'zod';
+import type { CircuitBreaker } from '@/lib/circuit-breaker';
+import {
+  ingestResponseSchema,
+  ingestionStatusSchema,
+  queueSnapshotSchema,
+  validationPolicySchema,
+  type IngestResponse,
+  type IngestionStatus,
+  type JobMetadata,
+  type Priority,
+  type QueueSnapshotResponse,
+  type ValidationPolicyResponse,
+} from '@/lib/schemas';
+
+export type {
+  Batch,
+  BatchStatus,
+  IngestResponse,
+  IngestionStatus,
+  JobMetadata,
+  Priority,
+  QueueSnapshotResponse,
+  ValidationPolicyResponse,
+} from '@/lib/schemas';
+
+export interface IngestRequest extends JobMetadata {
+  ids: number[];
+  priority: Priority;
+}
+
+export const DEFAULT_API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000';
+
+/**
+ * Raised for every failed call to the ingestion backend. `status` is the HTTP
+ * status code, or null when the request never got a response.
+ */
+export class ApiError extends Error {
+  readonly status: number | null;
+  readonly body: unknown;
+  readonly headers: Headers | null;
+
+  constructor(message: string, status: number | null, body?: unknown, headers: Headers | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+    this.headers = headers;
+  }
+}
+
+/** Thrown without touching the network while the backend's circuit breaker is open. */
+export class CircuitOpenError extends ApiError {
+  readonly retryAt: number;
+
+  constructor(retryAt: number) {
+    super('Backend is unreachable; pausing requests before trying again', null);
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+/** True for the rejection of a request cancelled through its AbortSignal. */
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/** Network failures and 5xx responses are worth retrying; anything else is not. */
+export const isTransientError = (error: unknown) =>
+  error instanceof ApiError &&
+  !(error instanceof CircuitOpenError) &&
+  (error.status === null || error.status >= 500);
+
+export interface ContractIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Raised when the backend answered successfully but the payload doesn't match
+ * the schema the dashboard was built against.
+ */
+export class ContractMismatchError extends Error {
+  readonly endpoint: string;
+  readonly issues: ContractIssue[];
+  readonly payload: unknown;
+
+  constructor(endpoint: string, issues: ContractIssue[], payload: unknown) {
+    super(`Unexpected response from ${endpoint}`);
+    this.name = 'ContractMismatchError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+    this.payload = payload;
+  }
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface SubmitOptions extends RequestOptions {
+  /** Lets the backend recognise retries of the same submission; see `useSubmitIngestion`. */
+  idempotencyKey?: string;
+}
+
+/** Error code a backend sends with the 409 for a reused idempotency key. */
+export const IDEMPOTENCY_KEY_REUSED = 'idempotency_key_reused';
+
+/**
+ * Backends signal a reused idempotency key with a 409 carrying
+ * `code: "idempotency_key_reused"` and naming the original job. Any other 409
+ * is a genuine conflict and is left for `classifySubmissionError`.
+ */
+const replayedIngestionId = (error: unknown): string | null => {
+  if (!(error instanceof ApiError) || error.status !== 409) return null;
+  const body = error.body as { code?: unknown; ingestion_id?: unknown } | null;
+  if (body?.code !== IDEMPOTENCY_KEY_REUSED) return null;
+  return typeof body.ingestion_id === 'string' && body.ingestion_id ? body.ingestion_id : null;
+};
+
+export interface ApiClientOptions {
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  /** Tracks failures of this backend so a dead one isn't hammered. */
+  breaker?: CircuitBreaker;
+  /** Replaces the network, e.g. with the simulated backend. Push transports are disabled then. */
+  fetch?: typeof fetch;
+  /**
+   * Appended as `access_token` to the stream and socket URLs, since neither
+   * EventSource nor WebSocket can send an Authorization header.
+   */
+  accessToken?: string;
+  /** Off for credentials that may not travel in a URL; status updates are polled then. */
+  pushTransports?: boolean;
+  /** Called before a 401 is thrown, so the app can ask for credentials. */
+  onUnauthorized?: () => void;
+}
+
+const errorMessageFor = (status: number, body: unknown): string => {
+  if (body && typeof body === 'object') {
+    const { error, message } = body as { error?: unknown; message?: unknown };
+    if (typeof error === 'string') return error;
+    if (typeof message === 'string') return message;
+  }
+  if (status === 404) return 'Ingestion job not found';
+  return `HTTP error! status: ${status}`;
+};
+
+const parseBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+export const createApiClient = ({
+  baseUrl = DEFAULT_API_BASE_URL,
+  headers = {},
+  breaker,
+  fetch: fetchImpl,
+  accessToken,
+  pushTransports = true,
+  onUnauthorized,
+}: ApiClientOptions = {}) => {
+  const root = baseUrl.replace(/\/+$/, '');
+  const send = fetchImpl ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+  const supportsPush = !fetchImpl && pushTransports;
+  const withToken = (url: string) =>
+    accessToken ? `${url}${url.includes('?') ? '&' : '?'}access_token=${encodeURIComponent(accessToken)}` : url;
+
+  const request = async <T>(path: string, schema: ZodType<T>, init: RequestInit = {}): Promise<T> => {
+    const ticket = breaker ? breaker.canRequest() : null;
+    if (breaker && !ticket) {
+      throw new CircuitOpenError(breaker.getSnapshot().retryAt ?? Date.now());
+    }
+
+    let response: Response;
+    try {
+      response = await send(`${root}${path}`, {
+        ...init,
+        headers: {
+          Accept: 'application/json',
+          ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+          ...headers,
+          ...init.headers,
+        },
+      });
+    } catch (error) {
+      // Cancellation says nothing about the backend's health; pass it through untouched
+      if (isAbortError(error)) {
+        breaker?.release(ticket);
+        throw error;
+      }
+      breaker?.recordFailure(ticket);
+      throw new ApiError(
+        error instanceof Error ? `Network error: ${error.message}` : 'Network error',
+        null,
+      );
+    }
+
+    if (response.status >= 500) {
+      breaker?.recordFailure(ticket);
+    } else {
+      breaker?.recordSuccess(ticket);
+    }
+
+    const body = await parseBody(response);
+    if (response.status === 401) {
+      onUnauthorized?.();
+    }
+    if (!response.ok) {
+      throw new ApiError(errorMessageFor(response.status, body), response.status, body, response.headers);
+    }
+
+    const result = schema.safeParse(body);
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => ({
+        path: issue.path.length ? issue.path.join('.') : '(root)',
+        message: issue.message,
+      }));
+      throw new ContractMismatchError(`${init.method ?? 'GET'} ${path}`, issues, body);
+    }
+    return result.data;
+  };
+
+  return {
+    baseUrl: root,
+    submitIngestion: async (payload: IngestRequest, { signal, idempotencyKey }: SubmitOptions = {}) => {
+      try {
+        return await request<IngestResponse>('/ingest', ingestResponseSchema, {
+          method: 'POST',
+          body: JSON.stringify(payload),
+          headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+          signal,
+        });
+      } catch (error) {
+        // Without a key there is nothing the backend could have replayed
+        const existingId = idempotencyKey ? replayedIngestionId(error) : null;
+        if (existingId) return { ingestion_id: existingId, replayed: true };
+        throw error;
+      }
+    },
+    getStatus: async (ingestionId: string, { signal }: RequestOptions = {}) => {
+      const path = `/status/${encodeURIComponent(ingestionId)}`;
+      const status = await request<IngestionStatus>(path, ingestionStatusSchema, { signal });
+      // Never let a response for one job be shown as another's
+      if (status.ingestion_id !== ingestionId) {
+        throw new ContractMismatchError(
+          `GET ${path}`,
+          [{ path: 'ingestion_id', message: `Expected "${ingestionId}", received "${status.ingestion_id}"` }],
+          status,
+        );
+      }
+      return status;
+    },
+    /** Limits the backend enforces on submissions; not every backend offers it. */
+    getValidationPolicy: ({ signal }: RequestOptions = {}) =>
+      request<ValidationPolicyResponse>('/policy', validationPolicySchema, { signal }),
+    /** Read-only view of the processing queue, for dry-run previews; not every backend offers it. */
+    getQueue: ({ signal }: RequestOptions = {}) =>
+      request<QueueSnapshotResponse>('/queue', queueSnapshotSchema, { signal }),
+    /** Server-Sent Events endpoint pushing `IngestionStatus` updates for one job, if available. */
+    statusStreamUrl: (ingestionId: string) =>
+      supportsPush ? withToken(`${root}/status/${encodeURIComponent(ingestionId)}/stream`) : null,
+    /** WebSocket endpoint multiplexing status updates, see `src/lib/status-socket.ts`. */
+    statusSocketUrl: () => (supportsPush ? withToken(`${root.replace(/^http/, 'ws')}/ws/status`) : null),
+  };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,102 @@
+import { createPersistedStore, type PersistedStore } from '@/lib/persisted-store';
+import { readJson, removeStorage, writeJson } from '@/lib/storage';
+import type { JobMetadata } from '@/lib/api';
+import type { JobRowDraft } from '@/lib/multi-job';
+
+export type CredentialKind = 'bearer' | 'api_key';
+
+export interface AuthSession {
+  kind: CredentialKind;
+  token: string;
+  /** Who is signed in, for display only. */
+  user: string;
+}
+
+export interface AuthState {
+  session: AuthSession | null;
+  /** Set once the backend has answered 401, even for profiles not configured to need auth. */
+  required: boolean;
+}
+
+const STORAGE_PREFIX = 'ingest-flow:auth:';
+const SIGNED_OUT: AuthState = { session: null, required: false };
+
+const stores = new Map<string, PersistedStore<AuthState>>();
+
+const storeFor = (environmentId: string) => {
+  let store = stores.get(environmentId);
+  if (!store) {
+    store = createPersistedStore<AuthState>(`${STORAGE_PREFIX}${environmentId}`, SIGNED_OUT);
+    stores.set(environmentId, store);
+  }
+  return store;
+};
+
+const update = (environmentId: string, next: AuthState) => {
+  if (next.session || next.required) {
+    storeFor(environmentId).set(next);
+  } else {
+    storeFor(environmentId).clear();
+  }
+};
+
+/**
+ * Credentials are kept per environment profile, since local, staging and
+ * production gateways each issue their own tokens.
+ */
+export const authStore = {
+  get: (environmentId: string): AuthState => storeFor(environmentId).get(),
+
+  /** Also fires when another tab signs in or out of the same environment. */
+  subscribe: (environmentId: string, listener: () => void) => storeFor(environmentId).subscribe(listener),
+
+  signIn: (environmentId: string, session: AuthSession) => update(environmentId, { session, required: true }),
+
+  signOut: (environmentId: string) =>
+    update(environmentId, { session: null, required: authStore.get(environmentId).required }),
+
+  /** The backend rejected the current credentials (or their absence). */
+  markUnauthorized: (environmentId: string) => update(environmentId, { session: null, required: true }),
+};
+
+export const authHeaders = (session: AuthSession | null): Record<string, string> => {
+  if (!session) return {};
+  return session.kind === 'bearer'
+    ? { Authorization: `Bearer ${session.token}` }
+    : { 'X-API-Key': session.token };
+};
+
+/**
+ * Best-effort display name from a JWT's claims. The token is not verified;
+ * that is the gateway's job.
+ */
+export const userFromToken = (token: string): string | null => {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+  try {
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    const user = claims.email ?? claims.preferred_username ?? claims.name ?? claims.sub;
+    return typeof user === 'string' && user ? user : null;
+  } catch {
+    return null;
+  }
+};
+
+// A 401 mid-submission sends the user to the login screen, which unmounts the
+// form; whatever they had typed is parked here and picked up again afterwards.
+const PRESERVED_FORM_KEY = 'ingest-flow:form-before-login';
+
+export interface PreservedForm {
+  idsInput: string;
+  priority: string;
+  metadata?: JobMetadata;
+  extraJobs?: JobRowDraft[];
+}
+
+export const preserveFormForLogin = (form: PreservedForm) => writeJson(PRESERVED_FORM_KEY, form);
+
+export const takePreservedForm = (): PreservedForm | null => {
+  const form = readJson<PreservedForm | null>(PRESERVED_FORM_KEY, null);
+  removeStorage(PRESERVED_FORM_KEY);
+  return form;
+};
@@ -0,0 +1,120 @@
+import { priorityValues, type Batch, type Priority, type QueueSnapshotResponse } from '@/lib/schemas';
+
+// A dry run of a submission: how the backend will batch it and, from a
+// snapshot of its queue, roughly when it will start and finish. Nothing is
+// sent to the backend; the estimate assumes no higher-priority job arrives in
+// the meantime.
+
+/** How the ingestion service batches when it doesn't describe its queue. */
+export const DEFAULT_BATCH_SIZE = 3;
+export const DEFAULT_BATCH_DURATION_MS = 5000;
+
+export interface QueueSnapshot {
+  batchSize: number;
+  batchDurationMs: number;
+  queuedBatches: Record<Priority, number>;
+  /** Epoch ms the batch in progress finishes at; null while the queue is idle. */
+  busyUntil: number | null;
+}
+
+export interface PreviewJob {
+  ids: number[];
+  priority: Priority;
+}
+
+export interface JobPreview {
+  priority: Priority;
+  batches: Batch[];
+  /** Batches already queued that run before this job; null when the queue is unknown. */
+  batchesAhead: number | null;
+  startsAt: Date;
+  finishesAt: Date;
+}
+
+export interface SubmissionPreview {
+  jobs: JobPreview[];
+  batchSize: number;
+  /** Queued batches ahead of the job that starts first; null when the queue is unknown. */
+  batchesAhead: number | null;
+  startsAt: Date;
+  finishesAt: Date;
+}
+
+// Counts for priorities the dashboard doesn't know can't affect a job it submits
+const pickKnown = (counts: Record<string, number>) =>
+  Object.fromEntries(Object.entries(counts).filter(([priority]) => (priorityValues as readonly string[]).includes(priority)));
+
+export const toQueueSnapshot = (response: QueueSnapshotResponse): QueueSnapshot => {
+  const busyUntil = response.current_batch_ends_at ? Date.parse(response.current_batch_ends_at) : NaN;
+  return {
+    batchSize: response.batch_size,
+    batchDurationMs: response.batch_duration_seconds * 1000,
+    queuedBatches: { HIGH: 0, MEDIUM: 0, LOW: 0, ...pickKnown(response.queued_batches) },
+    busyUntil: Number.isNaN(busyUntil) ? null : busyUntil,
+  };
+};
+
+/** Batches waiting in the queue that the backend will pick before a new job of `priority`. */
+export const batchesAheadOf = (queue: QueueSnapshot, priority: Priority) =>
+  priorityValues
+    .slice(0, priorityValues.indexOf(priority) + 1)
+    .reduce((total, level) => total + queue.queuedBatches[level], 0);
+
+/** Splits IDs the way the backend does, in order, `batchSize` at a time. */
+export const splitIntoBatches = (ids: number[], batchSize: number, batchIdPrefix: string): Batch[] => {
+  const batches: Batch[] = [];
+  for (let start = 0; start < ids.length; start += batchSize) {
+    batches.push({
+      batch_id: `${batchIdPrefix}_b${batches.length + 1}`,
+      ids: ids.slice(start, start + batchSize),
+      status: 'yet_to_start',
+    });
+  }
+  return batches;
+};
+
+const rankOf = (priority: Priority) => priorityValues.indexOf(priority);
+
+/**
+ * Previews submitting `jobs` one after another. Without a queue snapshot the
+ * backend's default batching is assumed and the queue is treated as empty.
+ */
+export const previewSubmission = (jobs: PreviewJob[], queue: QueueSnapshot | null, now = Date.now()): SubmissionPreview => {
+  const batchSize = queue?.batchSize ?? DEFAULT_BATCH_SIZE;
+  const batchDurationMs = queue?.batchDurationMs ?? DEFAULT_BATCH_DURATION_MS;
+  const queueFreeAt = Math.max(now, queue?.busyUntil ?? now);
+  const batchLists = jobs.map(({ ids }, index) =>
+    splitIntoBatches(ids, batchSize, jobs.length > 1 ? `preview_${index + 1}` : 'preview'),
+  );
+
+  const previews = jobs.map(({ priority }, index): JobPreview => {
+    const batchesAhead = queue ? batchesAheadOf(queue, priority) : null;
+    // Submitted together, so a later higher-priority job still overtakes this
+    // one; equal priorities run in submission order
+    const submittedAhead = jobs.reduce((total, other, otherIndex) => {
+      const rank = rankOf(other.priority) - rankOf(priority);
+      return rank < 0 || (rank === 0 && otherIndex < index) ? total + batchLists[otherIndex].length : total;
+    }, 0);
+    const startsAt = queueFreeAt + ((batchesAhead ?? 0) + submittedAhead) * batchDurationMs;
+    const batches = batchLists[index];
+    return {
+      priority,
+      batches,
+      batchesAhead,
+      startsAt: new Date(startsAt),
+      finishesAt: new Date(startsAt + batches.length * batchDurationMs),
+    };
+  });
+
+  const first = previews.reduce<JobPreview | null>(
+    (earliest, job) => (!earliest || job.startsAt < earliest.startsAt ? job : earliest),
+    null,
+  );
+  return {
+    jobs: previews,
+    batchSize,
+    batchesAhead: first?.batchesAhead ?? null,
+    startsAt: first?.startsAt ?? new Date(queueFreeAt),
+    finishesAt: new Date(Math.max(queueFreeAt, ...previews.map(job => job.finishesAt.getTime()))),
+  };
+};
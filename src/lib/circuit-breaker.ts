@@ -0,0 +1,99 @@
+export type ConnectionHealth = 'healthy' | 'degraded' | 'offline';
+
+export interface CircuitSnapshot {
+  health: ConnectionHealth;
+  consecutiveFailures: number;
+  /** When an open circuit lets the next trial request through (epoch ms). */
+  retryAt: number | null;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;
+  cooldownMs?: number;
+}
+
+/**
+ * Handed out by `canRequest` for every request let through, and passed back
+ * with its outcome, so only the request holding the trial slot can free it.
+ */
+export interface CircuitTicket {
+  readonly trial: boolean;
+}
+
+const ORDINARY: CircuitTicket = { trial: false };
+
+const HEALTHY: CircuitSnapshot = { health: 'healthy', consecutiveFailures: 0, retryAt: null };
+
+/**
+ * Classic closed -> open -> half-open breaker. After `failureThreshold`
+ * consecutive failures the circuit opens and requests fail fast for
+ * `cooldownMs`; then a single trial request is let through, and its outcome
+ * either closes the circuit again or restarts the cooldown.
+ */
+export const createCircuitBreaker = ({ failureThreshold = 5, cooldownMs = 15000 }: CircuitBreakerOptions = {}) => {
+  let snapshot = HEALTHY;
+  let trial: CircuitTicket | null = null;
+  const listeners = new Set<() => void>();
+
+  const update = (next: CircuitSnapshot) => {
+    snapshot = next;
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    /**
+     * A ticket when a request may go out now, null when it has to fail fast.
+     * Claims the trial slot of a half-open circuit.
+     */
+    canRequest: (): CircuitTicket | null => {
+      if (snapshot.retryAt === null) return ORDINARY;
+      if (Date.now() < snapshot.retryAt || trial) return null;
+      trial = { trial: true };
+      return trial;
+    },
+
+    /** The request was cancelled before it finished; gives back the trial slot if it held it. */
+    release: (ticket: CircuitTicket | null) => {
+      if (ticket === trial) trial = null;
+    },
+
+    recordSuccess: (ticket: CircuitTicket | null) => {
+      if (ticket === trial) trial = null;
+      if (snapshot !== HEALTHY) update(HEALTHY);
+    },
+
+    recordFailure: (ticket: CircuitTicket | null) => {
+      if (ticket === trial) trial = null;
+      const consecutiveFailures = snapshot.consecutiveFailures + 1;
+      const open = consecutiveFailures >= failureThreshold;
+      update({
+        health: open ? 'offline' : 'degraded',
+        consecutiveFailures,
+        retryAt: open ? Date.now() + cooldownMs : null,
+      });
+    },
+  };
+};
+
+export type CircuitBreaker = ReturnType<typeof createCircuitBreaker>;
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/** One breaker per backend, shared by every client pointed at it. */
+export const getCircuitBreaker = (baseUrl: string) => {
+  let breaker = breakers.get(baseUrl);
+  if (!breaker) {
+    breaker = createCircuitBreaker();
+    breakers.set(baseUrl, breaker);
+  }
+  return breaker;
+};
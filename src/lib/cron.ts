@@ -0,0 +1,228 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week),
+// evaluated in the browser's local time zone. Supports `*`, lists, ranges,
+// steps (`*/15`, `1-5/2`) and three-letter month and weekday names. As in
+// classic cron, when both day fields are restricted a day matching either runs.
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday; `7` is accepted as Sunday too. */
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+export const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES },
+];
+
+/** Searching further ahead than this means the expression can never match (e.g. `0 0 31 2 *`). */
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+const parseValue = (raw: string, spec: FieldSpec): number => {
+  const upper = raw.toUpperCase();
+  const named = spec.names?.indexOf(upper) ?? -1;
+  const value = named >= 0 ? named + (spec.name === 'month' ? 1 : 0) : Number(raw);
+  if (!/^\d+$/.test(raw) && named < 0) {
+    throw new CronParseError(`"${raw}" is not a valid ${spec.name}`);
+  }
+  if (value < spec.min || value > spec.max) {
+    throw new CronParseError(`${spec.name} ${raw} is outside ${spec.min}-${spec.max}`);
+  }
+  return value;
+};
+
+const parseField = (field: string, spec: FieldSpec): Set<number> => {
+  const values = new Set<number>();
+  field.split(',').forEach(part => {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronParseError(`"${stepText}" is not a valid step for ${spec.name}`);
+    }
+
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      from = spec.min;
+      to = spec.max;
+    } else if (range.includes('-')) {
+      const [start, end] = range.split('-');
+      from = parseValue(start, spec);
+      to = parseValue(end, spec);
+      if (from > to) throw new CronParseError(`${spec.name} range ${range} ends before it starts`);
+    } else {
+      from = parseValue(range, spec);
+      // `5/15` means "from 5, every 15"
+      to = stepText === undefined ? from : spec.max;
+    }
+    for (let value = from; value <= to; value += step) values.add(value);
+  });
+  return values;
+};
+
+export const parseCron = (expression: string): CronSchedule => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronParseError(`Expected 5 fields (minute hour day month weekday), got ${fields[0] === '' ? 0 : fields.length}`);
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]));
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression: fields.join(' '),
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+};
+
+const dayMatches = (schedule: CronSchedule, date: Date) => {
+  const domMatch = schedule.daysOfMonth.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.anyDayOfMonth && schedule.anyDayOfWeek) return true;
+  if (schedule.anyDayOfMonth) return dowMatch;
+  if (schedule.anyDayOfWeek) return domMatch;
+  return domMatch || dowMatch;
+};
+
+/** The first time strictly after `after` that the schedule fires, or null if it never does. */
+export const nextCronRun = (schedule: CronSchedule, after: Date): Date | null => {
+  const candidate = new Date(after);
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+  const limit = after.getTime() + MAX_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000;
+
+  while (candidate.getTime() <= limit) {
+    if (!schedule.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0);
+    } else if (!dayMatches(schedule, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0);
+    } else if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1);
+    } else {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+export const nextCronRuns = (schedule: CronSchedule, after: Date, count: number): Date[] => {
+  const runs: Date[] = [];
+  let from = after;
+  while (runs.length < count) {
+    const next = nextCronRun(schedule, from);
+    if (!next) break;
+    runs.push(next);
+    from = next;
+  }
+  return runs;
+};
+
+// The friendly builder only produces a few common shapes; anything else has to
+// be written as an expression.
+
+export type CronFrequency = 'hourly' | 'daily' | 'weekly' | 'monthly';
+
+export interface CronRule {
+  frequency: CronFrequency;
+  minute: number;
+  /** Ignored for hourly rules. */
+  hour: number;
+  /** Weekly rules only; 0 = Sunday. */
+  weekdays: number[];
+  /** Monthly rules only. */
+  dayOfMonth: number;
+}
+
+export const DEFAULT_CRON_RULE: CronRule = { frequency: 'daily', minute: 0, hour: 2, weekdays: [1], dayOfMonth: 1 };
+
+export const buildCron = ({ frequency, minute, hour, weekdays, dayOfMonth }: CronRule): string => {
+  switch (frequency) {
+    case 'hourly':
+      return `${minute} * * * *`;
+    case 'daily':
+      return `${minute} ${hour} * * *`;
+    case 'weekly':
+      return `${minute} ${hour} * * ${[...weekdays].sort((a, b) => a - b).join(',') || '*'}`;
+    case 'monthly':
+      return `${minute} ${hour} ${dayOfMonth} * *`;
+  }
+};
+
+const SINGLE_NUMBER = /^\d+$/;
+const NUMBER_LIST = /^\d+(,\d+)*$/;
+
+/** The builder rule an expression came from, or null when the builder can't represent it. */
+export const ruleFromCron = (expression: string): CronRule | null => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+  const [minute, hour, dayOfMonth, month, weekday] = fields;
+  if (!SINGLE_NUMBER.test(minute) || month !== '*') return null;
+  const base = { ...DEFAULT_CRON_RULE, minute: Number(minute) };
+
+  if (hour === '*' && dayOfMonth === '*' && weekday === '*') return { ...base, frequency: 'hourly' };
+  if (!SINGLE_NUMBER.test(hour)) return null;
+  const timed = { ...base, hour: Number(hour) };
+  if (dayOfMonth === '*' && weekday === '*') return { ...timed, frequency: 'daily' };
+  if (dayOfMonth === '*' && NUMBER_LIST.test(weekday)) {
+    return { ...timed, frequency: 'weekly', weekdays: weekday.split(',').map(day => Number(day) % 7) };
+  }
+  if (SINGLE_NUMBER.test(dayOfMonth) && weekday === '*') {
+    return { ...timed, frequency: 'monthly', dayOfMonth: Number(dayOfMonth) };
+  }
+  return null;
+};
+
+const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const formatTime = (hour: number, minute: number) => `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+
+/** "Every Monday, Friday at 02:00"; falls back to the expression itself. */
+export const describeCron = (expression: string): string => {
+  const rule = ruleFromCron(expression);
+  if (!rule) return `Cron: ${expression}`;
+  const at = formatTime(rule.hour, rule.minute);
+  switch (rule.frequency) {
+    case 'hourly':
+      return `Every hour at minute ${rule.minute}`;
+    case 'daily':
+      return `Every day at ${at}`;
+    case 'weekly':
+      return `Every ${rule.weekdays.map(day => WEEKDAY_LABELS[day]).join(', ')} at ${at}`;
+    case 'monthly':
+      return `Monthly on day ${rule.dayOfMonth} at ${at}`;
+  }
+};
@@ -0,0 +1,25 @@
+import { createApiClient } from '@/lib/api';
+import { getCircuitBreaker } from '@/lib/circuit-breaker';
+import { getSimulatedBackend } from '@/lib/simulated-backend';
+import { authHeaders, authStore, type AuthSession } from '@/lib/auth';
+import type { EnvironmentProfile } from '@/lib/environments';
+
+/**
+ * API client for one environment profile, using that profile's stored
+ * credentials unless a session is passed in.
+ */
+export const createEnvironmentClient = (
+  { id, baseUrl, simulated }: EnvironmentProfile,
+  session: AuthSession | null = authStore.get(id).session,
+) =>
+  createApiClient({
+    baseUrl,
+    headers: authHeaders(session),
+    breaker: getCircuitBreaker(baseUrl),
+    fetch: simulated ? getSimulatedBackend().fetch : undefined,
+    // Only short-lived bearer tokens go into URLs; a long-lived API key would end up in
+    // proxy logs and browser history, and gateways reading X-API-Key ignore it there anyway
+    accessToken: session?.kind === 'bearer' ? session.token : undefined,
+    pushTransports: session?.kind !== 'api_key',
+    onUnauthorized: () => authStore.markUnauthorized(id),
+  });
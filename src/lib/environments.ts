@@ -0,0 +1,91 @@
+import { DEFAULT_API_BASE_URL } from '@/lib/api';
+import { readStorage, writeStorage } from '@/lib/storage';
+import { SIMULATED_BASE_URL } from '@/lib/simulated-backend';
+import type { CredentialKind } from '@/lib/auth';
+
+export interface EnvironmentProfile {
+  id: string;
+  label: string;
+  baseUrl: string;
+  /** Any CSS color; used for the header switcher dot and banners. */
+  color: string;
+  isProduction?: boolean;
+  /** Served by the in-browser simulated backend instead of `baseUrl`. */
+  simulated?: boolean;
+  /** Credentials the gateway expects; users are sent to the login screen until they provide them. */
+  auth?: CredentialKind;
+}
+
+export interface RuntimeConfig {
+  environments?: EnvironmentProfile[];
+  defaultEnvironment?: string;
+}
+
+declare global {
+  interface Window {
+    __INGEST_FLOW_CONFIG__?: RuntimeConfig;
+  }
+}
+
+export const ENVIRONMENT_STORAGE_KEY = 'ingest-flow:environment';
+
+const BUILT_IN_ENVIRONMENTS: EnvironmentProfile[] = [
+  { id: 'local', label: 'Local', baseUrl: DEFAULT_API_BASE_URL, color: '#22c55e' },
+  { id: 'staging', label: 'Staging', baseUrl: 'https://ingest.staging.example.com', color: '#eab308' },
+  { id: 'production', label: 'Production', baseUrl: 'https://ingest.example.com', color: '#ef4444', isProduction: true },
+  { id: 'simulated', label: 'Simulated', baseUrl: SIMULATED_BASE_URL, color: '#a855f7', simulated: true },
+];
+
+const SIMULATED_BY_DEFAULT = import.meta.env.VITE_SIMULATED_BACKEND === 'true';
+
+const isProfile = (value: unknown): value is EnvironmentProfile => {
+  if (!value || typeof value !== 'object') return false;
+  const { id, label, baseUrl, color } = value as Record<string, unknown>;
+  return [id, label, baseUrl, color].every(field => typeof field === 'string' && field !== '');
+};
+
+const parseEnvProfiles = (raw: string | undefined): EnvironmentProfile[] | undefined => {
+  if (!raw) return undefined;
+  try {
+    const parsed = JSON.parse(raw);
+    if (Array.isArray(parsed) && parsed.every(isProfile)) return parsed;
+  } catch {
+    // fall through to the warning below
+  }
+  console.warn('Ignoring malformed VITE_ENVIRONMENTS; expected a JSON array of profiles');
+  return undefined;
+};
+
+/**
+ * Resolves the available profiles. A runtime config (`window.__INGEST_FLOW_CONFIG__`,
+ * loaded from `/config.js`) wins over `VITE_ENVIRONMENTS`, which wins over the
+ * built-in defaults.
+ */
+export const loadEnvironments = (): EnvironmentProfile[] => {
+  const runtime = window.__INGEST_FLOW_CONFIG__?.environments;
+  if (Array.isArray(runtime) && runtime.length > 0 && runtime.every(isProfile)) {
+    return runtime;
+  }
+  return parseEnvProfiles(import.meta.env.VITE_ENVIRONMENTS) ?? BUILT_IN_ENVIRONMENTS;
+};
+
+/**
+ * Picks the initial profile: the persisted selection if it still exists, then
+ * the configured default, then the simulated backend when
+ * `VITE_SIMULATED_BACKEND=true`, then the first profile.
+ */
+export const resolveInitialEnvironment = (environments: EnvironmentProfile[]): EnvironmentProfile => {
+  const candidates = [
+    readStorage(ENVIRONMENT_STORAGE_KEY),
+    window.__INGEST_FLOW_CONFIG__?.defaultEnvironment,
+    import.meta.env.VITE_DEFAULT_ENVIRONMENT,
+    SIMULATED_BY_DEFAULT ? environments.find(env => env.simulated)?.id : undefined,
+  ];
+  for (const id of candidates) {
+    const match = id && environments.find(env => env.id === id);
+    if (match) return match;
+  }
+  return environments[0];
+};
+
+export const storeEnvironmentId = (id: string) => writeStorage(ENVIRONMENT_STORAGE_KEY, id);
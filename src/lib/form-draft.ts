@@ -0,0 +1,37 @@
+import { hasMetadata } from '@/lib/job-metadata';
+import { readJson, removeStorage, writeJson } from '@/lib/storage';
+import type { JobMetadata } from '@/lib/api';
+import type { JobRowDraft } from '@/lib/multi-job';
+
+// Whatever is typed into the submission form, saved as it changes so that
+// switching to the status view or reloading the page doesn't lose it.
+
+export interface FormDraft {
+  idsInput: string;
+  priority: string;
+  metadata?: JobMetadata;
+  /** Jobs after the first when the form holds several. */
+  extraJobs?: JobRowDraft[];
+  savedAt: string;
+}
+
+const STORAGE_KEY = 'ingest-flow:form-draft';
+
+const hasContent = ({ idsInput, priority, metadata, extraJobs }: Omit<FormDraft, 'savedAt'>) =>
+  !!idsInput.trim() || !!priority || hasMetadata(metadata) || !!extraJobs?.length;
+
+export const loadFormDraft = (): FormDraft | null => {
+  const draft = readJson<FormDraft | null>(STORAGE_KEY, null);
+  return draft && hasContent(draft) ? draft : null;
+};
+
+export const clearFormDraft = () => removeStorage(STORAGE_KEY);
+
+/** An empty form clears the draft rather than saving an empty one. */
+export const saveFormDraft = (draft: Omit<FormDraft, 'savedAt'>) => {
+  if (!hasContent(draft)) {
+    clearFormDraft();
+    return;
+  }
+  writeJson(STORAGE_KEY, { ...draft, savedAt: new Date().toISOString() });
+};
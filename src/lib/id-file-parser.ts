@@ -0,0 +1,205 @@
+// Client-side parsing of ID lists exported from spreadsheets and databases.
+// A file is first turned into a table (rows of string cells), then one column
+// of that table is read as IDs.
+
+export type IdFileFormat = 'csv' | 'tsv' | 'ndjson' | 'text';
+
+export interface ParsedIdFile {
+  format: IdFileFormat;
+  rows: string[][];
+  /** Best guess at whether the first row holds column names; the user can override it. */
+  hasHeader: boolean;
+  columnCount: number;
+}
+
+export interface InvalidRow {
+  /** 1-based line/record number in the file, counting the header. */
+  row: number;
+  value: string;
+}
+
+export interface IdExtraction {
+  ids: number[];
+  rowsRead: number;
+  /** Rows whose ID cell was empty. */
+  skipped: number;
+  invalid: InvalidRow[];
+}
+
+export const MAX_ID_FILE_BYTES = 5 * 1024 * 1024;
+
+const POSITIVE_INTEGER = /^\+?\d+$/;
+
+const isIdCell = (cell: string) => POSITIVE_INTEGER.test(cell.trim().replace(/^"(.*)"$/, '$1'));
+
+const EXTENSION_FORMATS: Record<string, IdFileFormat> = {
+  csv: 'csv',
+  tsv: 'tsv',
+  tab: 'tsv',
+  ndjson: 'ndjson',
+  jsonl: 'ndjson',
+  txt: 'text',
+};
+
+const detectFormat = (fileName: string, text: string): IdFileFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  if (EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+
+  const sample = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 5);
+  if (sample.length > 0 && sample.every(line => /^\s*[[{]/.test(line))) return 'ndjson';
+  if (sample.some(line => line.includes('\t'))) return 'tsv';
+  if (sample.some(line => line.includes(','))) return 'csv';
+  return 'text';
+};
+
+/** RFC 4180 style: quoted fields may contain delimiters, newlines and doubled quotes. */
+const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const cellFromJson = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+/**
+ * Each line is a JSON value. Objects become rows keyed by the union of all
+ * their keys (emitted as a header row), arrays become positional rows and
+ * scalars a single column.
+ */
+const parseNdjson = (text: string): { rows: string[][]; hasHeader: boolean } => {
+  const values = text.split(/\r?\n/).map(line => {
+    if (!line.trim()) return undefined;
+    try {
+      return JSON.parse(line) as unknown;
+    } catch {
+      return line;
+    }
+  });
+
+  const keys: string[] = [];
+  values.forEach(value => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      Object.keys(value).forEach(key => {
+        if (!keys.includes(key)) keys.push(key);
+      });
+    }
+  });
+
+  const rows = values.map(value => {
+    if (value === undefined) return [''];
+    if (Array.isArray(value)) return value.map(cellFromJson);
+    if (value && typeof value === 'object') {
+      return keys.map(key => cellFromJson((value as Record<string, unknown>)[key]));
+    }
+    return [cellFromJson(value)];
+  });
+  return keys.length > 0 ? { rows: [keys, ...rows], hasHeader: true } : { rows, hasHeader: false };
+};
+
+const guessHeader = (rows: string[][]) => {
+  const [first, second] = rows.filter(row => row.some(cell => cell.trim()));
+  if (!first || !second) return false;
+  // A header has a text cell where the data below it is numeric
+  return first.some((cell, index) => cell.trim() !== '' && !isIdCell(cell) && isIdCell(second[index] ?? ''));
+};
+
+export const parseIdFile = (text: string, fileName = ''): ParsedIdFile => {
+  const content = text.replace(/^\uFEFF/, '');
+  const format = detectFormat(fileName, content);
+
+  let rows: string[][];
+  let hasHeader: boolean;
+  if (format === 'ndjson') {
+    ({ rows, hasHeader } = parseNdjson(content));
+  } else if (format === 'text') {
+    // Plain text: every whitespace/comma separated token is its own record
+    rows = content.split(/\r?\n/).flatMap(line => {
+      const tokens = line.split(/[\s,;]+/).filter(Boolean);
+      return tokens.length > 0 ? tokens.map(token => [token]) : [['']];
+    });
+    hasHeader = false;
+  } else {
+    rows = parseDelimited(content, format === 'tsv' ? '\t' : ',');
+    hasHeader = guessHeader(rows);
+  }
+
+  return {
+    format,
+    rows,
+    hasHeader,
+    columnCount: rows.reduce((max, row) => Math.max(max, row.length), 0),
+  };
+};
+
+export const columnLabels = ({ rows, columnCount, ...file }: ParsedIdFile, hasHeader = file.hasHeader): string[] =>
+  Array.from({ length: columnCount }, (_, index) => {
+    const name = hasHeader ? rows[0]?.[index]?.trim() : '';
+    return name || `Column ${index + 1}`;
+  });
+
+/** Index of the column most likely to hold the IDs: the one with the most integer cells. */
+export const guessIdColumn = ({ rows, columnCount, ...file }: ParsedIdFile, hasHeader = file.hasHeader): number => {
+  const data = hasHeader ? rows.slice(1) : rows;
+  let best = 0;
+  let bestCount = -1;
+  for (let column = 0; column < columnCount; column++) {
+    const count = data.filter(row => isIdCell(row[column] ?? '')).length;
+    if (count > bestCount) {
+      best = column;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+export const extractIds = (file: ParsedIdFile, column: number, hasHeader = file.hasHeader): IdExtraction => {
+  const offset = hasHeader ? 1 : 0;
+  const result: IdExtraction = { ids: [], rowsRead: 0, skipped: 0, invalid: [] };
+
+  file.rows.slice(offset).forEach((row, index) => {
+    if (row.every(cell => !cell.trim())) return;
+    result.rowsRead++;
+    const value = (row[column] ?? '').trim();
+    if (!value) {
+      result.skipped++;
+    } else if (isIdCell(value)) {
+      result.ids.push(Number(value.replace(/^"(.*)"$/, '$1')));
+    } else {
+      result.invalid.push({ row: index + offset + 1, value });
+    }
+  });
+  return result;
+};
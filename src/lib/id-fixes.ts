@@ -0,0 +1,120 @@
+import { tokenizeIds, type IdRange, type IdToken } from '@/lib/id-parser';
+
+// One-click repairs for a pasted ID list. Each fix rewrites the raw input into
+// a comma separated list and reports what it took out, so the form can show
+// the user exactly what changed before they submit.
+
+export type IdFix = 'dedupe' | 'drop_invalid' | 'sort';
+
+export interface IdFixResult {
+  input: string;
+  /** Token texts or ID ranges that are no longer in the input. */
+  removed: string[];
+}
+
+export interface IdFixSummary {
+  duplicateCount: number;
+  invalidCount: number;
+  isSorted: boolean;
+}
+
+const SEPARATOR = ', ';
+
+/** Runs of three or more consecutive IDs are written back as ranges. */
+export const formatIds = (ids: number[]): string[] => {
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 1; i <= ids.length; i++) {
+    if (i < ids.length && ids[i] === ids[i - 1] + 1) continue;
+    const run = ids.slice(start, i);
+    if (run.length >= 3) {
+      parts.push(`${run[0]}-${run[run.length - 1]}`);
+    } else {
+      parts.push(...run.map(String));
+    }
+    start = i;
+  }
+  return parts;
+};
+
+const validIds = (tokens: IdToken[]) => tokens.flatMap(token => token.ids);
+
+export const summarizeIdFixes = (input: string, allowedRanges?: IdRange[]): IdFixSummary => {
+  const tokens = tokenizeIds(input, allowedRanges);
+  const ids = validIds(tokens);
+  return {
+    duplicateCount: ids.length - new Set(ids).size,
+    invalidCount: tokens.filter(token => token.kind === 'invalid').length,
+    isSorted: ids.every((id, index) => index === 0 || ids[index - 1] <= id),
+  };
+};
+
+const dedupe = (tokens: IdToken[]): IdFixResult => {
+  const seen = new Set<number>();
+  const kept: string[] = [];
+  const removed: string[] = [];
+
+  tokens.forEach(token => {
+    if (token.kind === 'invalid') {
+      kept.push(token.text);
+      return;
+    }
+    const fresh = token.ids.filter(id => !seen.has(id));
+    const duplicates = token.ids.filter(id => seen.has(id));
+    fresh.forEach(id => seen.add(id));
+    if (duplicates.length === 0) {
+      kept.push(token.text);
+      return;
+    }
+    // A range that overlaps earlier IDs shrinks to just the IDs not seen yet
+    kept.push(...formatIds(fresh));
+    removed.push(...(token.kind === 'id' ? [token.text] : formatIds(duplicates)));
+  });
+  return { input: kept.join(SEPARATOR), removed };
+};
+
+const dropInvalid = (tokens: IdToken[]): IdFixResult => ({
+  input: tokens.filter(token => token.kind !== 'invalid').map(token => token.text).join(SEPARATOR),
+  removed: tokens.filter(token => token.kind === 'invalid').map(token => token.text),
+});
+
+/**
+ * Invalid tokens can't be ordered, so they are kept at the end as typed.
+ * Duplicates survive sorting; ranges are only rebuilt when there are none,
+ * since overlapping ranges would be harder to read than the plain list.
+ */
+const sort = (tokens: IdToken[]): IdFixResult => {
+  const sorted = validIds(tokens).sort((a, b) => a - b);
+  const hasDuplicates = new Set(sorted).size !== sorted.length;
+  const invalid = tokens.filter(token => token.kind === 'invalid').map(token => token.text);
+  const parts = hasDuplicates ? sorted.map(String) : formatIds(sorted);
+  return { input: [...parts, ...invalid].join(SEPARATOR), removed: [] };
+};
+
+export const applyIdFix = (input: string, fix: IdFix, allowedRanges?: IdRange[]): IdFixResult => {
+  const tokens = tokenizeIds(input, allowedRanges);
+  switch (fix) {
+    case 'dedupe':
+      return dedupe(tokens);
+    case 'drop_invalid':
+      return dropInvalid(tokens);
+    case 'sort':
+      return sort(tokens);
+  }
+};
+
+/** Takes `excluded` IDs out of the input, shrinking ranges around them and leaving other tokens as typed. */
+export const excludeIds = (input: string, excluded: Set<number>, allowedRanges?: IdRange[]): IdFixResult => {
+  const kept: string[] = [];
+  const removed: string[] = [];
+  tokenizeIds(input, allowedRanges).forEach(token => {
+    const dropped = token.ids.filter(id => excluded.has(id));
+    if (dropped.length === 0) {
+      kept.push(token.text);
+      return;
+    }
+    kept.push(...formatIds(token.ids.filter(id => !excluded.has(id))));
+    removed.push(...(token.kind === 'id' ? [token.text] : formatIds(dropped)));
+  });
+  return { input: kept.join(SEPARATOR), removed };
+};
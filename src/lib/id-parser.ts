@@ -0,0 +1,183 @@
+// Parses the free-form ID lists people paste into the submission form:
+// JSON arrays, comma/semicolon/space/newline separated columns from Excel,
+// stray brackets and quotes, and ranges such as `1-500` or `900..950`.
+
+export const MAX_IDS_PER_JOB = 100;
+
+/** Ranges wider than this are rejected outright instead of being expanded. */
+export const MAX_RANGE_SIZE = 10_000;
+
+export interface IdRange {
+  min: number;
+  /** Inclusive; open-ended when absent. */
+  max?: number;
+}
+
+/** Positive integers, unless the backend's validation policy says otherwise. */
+export const DEFAULT_ID_RANGES: IdRange[] = [{ min: 1 }];
+
+export type IdTokenKind = 'id' | 'range' | 'invalid';
+
+export interface IdToken {
+  kind: IdTokenKind;
+  text: string;
+  /** Offsets into the raw input, end exclusive. */
+  start: number;
+  end: number;
+  /** IDs this token contributes; empty for invalid tokens. */
+  ids: number[];
+  error?: string;
+}
+
+export interface IdValidation {
+  isValid: boolean;
+  ids: number[];
+  /** Every problem: one per invalid token, followed by `listErrors`. */
+  errors: string[];
+  /** Problems with the list as a whole (empty, duplicates, too long) rather than a single token. */
+  listErrors: string[];
+  tokens: IdToken[];
+  rangeCount: number;
+}
+
+export interface TextPosition {
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+}
+
+// A range (digits, `-`, `–` or `..`, digits) or any run of characters that
+// isn't a delimiter. Brackets and quotes count as delimiters, so JSON arrays
+// and quoted CSV cells fall apart into plain tokens. Only spaces and tabs may
+// pad the separator, never a line break, and a `-` with space before it but
+// not after is the sign of the next number: in `1 -5` or a pasted column
+// `10\n-3`, the `-5` and `-3` are negative IDs, not the end of a range.
+const TOKEN_PATTERN = /(\d+)(?:[ \t]*(?:\.\.|–)[ \t]*|-[ \t]*|[ \t]+-[ \t]+)(\d+)|[^\s,;[\](){}"'`]+/g;
+
+const INTEGER = /^[+-]?\d+$/;
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+const isDefaultRanges = (ranges: IdRange[]) => ranges.length === 1 && ranges[0].min === 1 && ranges[0].max === undefined;
+
+const describeRanges = (ranges: IdRange[]) =>
+  ranges.map(({ min, max }) => (max === undefined ? `${min} or above` : `${min}–${max}`)).join(', ');
+
+/** Whether every ID from `from` to `to` falls into a single allowed range. */
+const isAllowed = (from: number, to: number, ranges: IdRange[]) =>
+  ranges.some(({ min, max }) => from >= min && (max === undefined || to <= max));
+
+const classifyToken = (match: RegExpExecArray, ranges: IdRange[]): IdToken => {
+  const [text, rangeStart, rangeEnd] = match;
+  const base = { text, start: match.index, end: match.index + text.length };
+  const outOfRange = (subject: string) =>
+    isDefaultRanges(ranges)
+      ? `${subject} must ${rangeStart !== undefined ? 'start at' : 'be'} a positive integer`
+      : `${subject} is outside the allowed IDs (${describeRanges(ranges)})`;
+
+  if (rangeStart !== undefined) {
+    const from = Number(rangeStart);
+    const to = Number(rangeEnd);
+    if (from > to) {
+      return { ...base, kind: 'invalid', ids: [], error: `Range "${text}" ends before it starts` };
+    }
+    if (to - from + 1 > MAX_RANGE_SIZE) {
+      return { ...base, kind: 'invalid', ids: [], error: `Range "${text}" is larger than ${MAX_RANGE_SIZE} IDs` };
+    }
+    if (!isAllowed(from, to, ranges)) {
+      return { ...base, kind: 'invalid', ids: [], error: outOfRange(`Range "${text}"`) };
+    }
+    return { ...base, kind: 'range', ids: Array.from({ length: to - from + 1 }, (_, i) => from + i) };
+  }
+
+  if (INTEGER.test(text)) {
+    const id = Number(text);
+    if (!Number.isSafeInteger(id)) {
+      return { ...base, kind: 'invalid', ids: [], error: `ID "${text}" is too large` };
+    }
+    return isAllowed(id, id, ranges)
+      ? { ...base, kind: 'id', ids: [id] }
+      : { ...base, kind: 'invalid', ids: [], error: outOfRange(`ID "${text}"`) };
+  }
+  if (NUMBER.test(text)) {
+    const rule = isDefaultRanges(ranges) ? 'a positive integer' : 'an integer';
+    return { ...base, kind: 'invalid', ids: [], error: `ID "${text}" must be ${rule}` };
+  }
+  return { ...base, kind: 'invalid', ids: [], error: `"${text}" is not a valid number` };
+};
+
+export const tokenizeIds = (input: string, ranges: IdRange[] = DEFAULT_ID_RANGES): IdToken[] => {
+  const tokens: IdToken[] = [];
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    tokens.push(classifyToken(match as RegExpExecArray, ranges));
+  }
+  return tokens;
+};
+
+/** Maps offsets into `input` to line/column positions. */
+export const createPositionLookup = (input: string) => {
+  const lineStarts = [0];
+  for (let i = 0; i < input.length; i++) {
+    if (input[i] === '\n') lineStarts.push(i + 1);
+  }
+  return (offset: number): TextPosition => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+};
+
+/** Tokens repeating an ID from an earlier token, paired with the first token that had it. */
+export const findDuplicateTokens = (tokens: IdToken[]): { token: IdToken; firstSeen: IdToken }[] => {
+  const owners = new Map<number, IdToken>();
+  const duplicates: { token: IdToken; firstSeen: IdToken }[] = [];
+  tokens.forEach(token => {
+    const earlier = token.ids.map(id => owners.get(id)).find(Boolean);
+    if (earlier) duplicates.push({ token, firstSeen: earlier });
+    token.ids.forEach(id => {
+      if (!owners.has(id)) owners.set(id, token);
+    });
+  });
+  return duplicates;
+};
+
+export interface ValidateIdsOptions {
+  /** Pass `Infinity` when the list will be split into several jobs anyway. */
+  maxIds?: number;
+  allowedRanges?: IdRange[];
+}
+
+export const validateIds = (
+  input: string,
+  { maxIds = MAX_IDS_PER_JOB, allowedRanges = DEFAULT_ID_RANGES }: ValidateIdsOptions = {},
+): IdValidation => {
+  const tokens = tokenizeIds(input, allowedRanges);
+  const ids = tokens.flatMap(token => token.ids);
+  const tokenErrors = tokens.filter(token => token.error).map(token => token.error as string);
+  const listErrors: string[] = [];
+  const rangeCount = tokens.filter(token => token.kind === 'range').length;
+
+  if (!input.trim()) {
+    return { isValid: false, ids: [], errors: ['IDs are required'], listErrors: ['IDs are required'], tokens, rangeCount };
+  }
+
+  if (new Set(ids).size !== ids.length) {
+    listErrors.push('Duplicate IDs are not allowed');
+  }
+
+  if (ids.length === 0 && tokens.every(token => token.kind !== 'invalid')) {
+    listErrors.push('At least one ID is required');
+  }
+
+  if (ids.length > maxIds) {
+    listErrors.push(`Maximum ${maxIds} IDs allowed per job`);
+  }
+
+  const errors = [...tokenErrors, ...listErrors];
+  return { isValid: errors.length === 0, ids, errors, listErrors, tokens, rangeCount };
+};
@@ -0,0 +1,16 @@
+import type { IngestRequest } from '@/lib/api';
+import { cleanMetadata } from '@/lib/job-metadata';
+
+export const createIdempotencyKey = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+/**
+ * Identifies "the same submission" regardless of ID order, so a retry after
+ * reformatting the input still reuses the key of the original attempt. The
+ * metadata counts too: editing it makes a new submission, which the backend
+ * would otherwise answer by replaying the job with the old metadata.
+ */
+export const submissionFingerprint = ({ ids, priority, ...metadata }: IngestRequest) =>
+  `${priority}:${[...ids].sort((a, b) => a - b).join(',')}:${JSON.stringify(cleanMetadata(metadata))}`;
@@ -0,0 +1,3 @@
+/** Short, time-ordered local IDs such as `tpl_lx2k9c1ab3`; unique enough for one browser's records. */
+export const createId = (prefix: string) =>
+  `${prefix}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
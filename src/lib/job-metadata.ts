@@ -0,0 +1,55 @@
+import type { JobMetadata } from '@/lib/schemas';
+
+// Labels, description, owner and ticket reference attached to a job, so an
+// ingestion ID still means something weeks later. All of it is optional.
+
+export const MAX_LABELS = 10;
+export const MAX_LABEL_LENGTH = 40;
+
+/** Splits "nightly, Partners" into labels, trimmed and without case-insensitive repeats. */
+export const parseLabels = (text: string): string[] => {
+  const labels: string[] = [];
+  text.split(',').forEach(part => {
+    const label = part.trim().slice(0, MAX_LABEL_LENGTH);
+    if (label && !labels.some(existing => existing.toLowerCase() === label.toLowerCase())) labels.push(label);
+  });
+  return labels;
+};
+
+/** Trims every field and drops the empty ones, so they are left out of the payload. */
+export const cleanMetadata = ({ labels, description, owner, external_ref }: JobMetadata): JobMetadata => {
+  const cleaned: JobMetadata = {};
+  const cleanLabels = parseLabels((labels ?? []).join(',')).slice(0, MAX_LABELS);
+  if (cleanLabels.length) cleaned.labels = cleanLabels;
+  if (description?.trim()) cleaned.description = description.trim();
+  if (owner?.trim()) cleaned.owner = owner.trim();
+  if (external_ref?.trim()) cleaned.external_ref = external_ref.trim();
+  return cleaned;
+};
+
+export const hasMetadata = (metadata: JobMetadata | undefined) =>
+  !!metadata && Object.keys(cleanMetadata(metadata)).length > 0;
+
+const FIELD_PREFIXES: Record<string, (metadata: JobMetadata) => string[]> = {
+  label: metadata => metadata.labels ?? [],
+  owner: metadata => (metadata.owner ? [metadata.owner] : []),
+  ref: metadata => (metadata.external_ref ? [metadata.external_ref] : []),
+};
+
+/**
+ * Whether a job matches a filter query. Every whitespace-separated term has to
+ * match; `label:`, `owner:` and `ref:` restrict a term to that field, plain
+ * terms also match the description and any `extra` text (ID, schedule name).
+ */
+export const matchesJobFilter = (query: string, metadata: JobMetadata | undefined, extra: string[] = []) => {
+  const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const meta = metadata ?? {};
+  return terms.every(term => {
+    const [prefix, ...rest] = term.split(':');
+    const field = rest.length ? FIELD_PREFIXES[prefix] : undefined;
+    if (field) return field(meta).some(value => value.toLowerCase().includes(rest.join(':')));
+    return [...Object.values(FIELD_PREFIXES).flatMap(values => values(meta)), meta.description ?? '', ...extra].some(
+      value => value.toLowerCase().includes(term),
+    );
+  });
+};
@@ -0,0 +1,110 @@
+import { z } from 'zod';
+import { jobMetadataSchema, prioritySchema, type JobMetadata, type Priority } from '@/lib/schemas';
+import { createId } from '@/lib/ids';
+import { createPersistedStore } from '@/lib/persisted-store';
+
+// Named presets of the submission form ("nightly partners", "top customers")
+// kept in this browser. They are not tied to an environment, so the same
+// template can be run against staging and production.
+
+/** A further job of a multi-job template, submitted after the first. */
+export interface JobTemplateRow {
+  idsInput: string;
+  priority: Priority;
+}
+
+export interface JobTemplate {
+  id: string;
+  name: string;
+  /** Raw editor text, so ranges and line breaks survive a round trip. */
+  idsInput: string;
+  priority: Priority;
+  metadata?: JobMetadata;
+  extraJobs?: JobTemplateRow[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type JobTemplateDraft = Pick<JobTemplate, 'name' | 'idsInput' | 'priority' | 'metadata' | 'extraJobs'>;
+
+const STORAGE_KEY = 'ingest-flow:job-templates';
+const EXPORT_VERSION = 1;
+
+const jobTemplateSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  idsInput: z.string(),
+  priority: prioritySchema,
+  metadata: jobMetadataSchema.optional(),
+  extraJobs: z.array(z.object({ idsInput: z.string(), priority: prioritySchema })).optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const templateExportSchema = z.object({
+  version: z.literal(EXPORT_VERSION),
+  templates: z.array(jobTemplateSchema),
+});
+
+const store = createPersistedStore<JobTemplate[]>(STORAGE_KEY, []);
+
+const byName = (a: JobTemplate, b: JobTemplate) => a.name.localeCompare(b.name);
+
+export const templateStore = {
+  list: store.get,
+
+  subscribe: store.subscribe,
+
+  create: (draft: JobTemplateDraft): JobTemplate => {
+    const now = new Date().toISOString();
+    const template = { ...draft, name: draft.name.trim(), id: createId('tpl_'), createdAt: now, updatedAt: now };
+    store.set([...templateStore.list(), template].sort(byName));
+    return template;
+  },
+
+  edit: (id: string, draft: JobTemplateDraft) =>
+    store.set(
+      templateStore
+        .list()
+        .map(template =>
+          template.id === id
+            ? { ...template, ...draft, name: draft.name.trim(), updatedAt: new Date().toISOString() }
+            : template,
+        )
+        .sort(byName),
+    ),
+
+  remove: (id: string) => store.set(templateStore.list().filter(template => template.id !== id)),
+
+  /**
+   * Adds shared templates. One with the same name as an existing template
+   * replaces it, so re-importing a colleague's updated file doesn't pile up copies.
+   */
+  importMany: (incoming: JobTemplate[]) => {
+    const names = new Set(incoming.map(template => template.name.toLowerCase()));
+    const kept = templateStore.list().filter(template => !names.has(template.name.toLowerCase()));
+    store.set([...kept, ...incoming.map(template => ({ ...template, id: createId('tpl_') }))].sort(byName));
+  },
+};
+
+export const findTemplateByName = (name: string) =>
+  templateStore.list().find(template => template.name.toLowerCase() === name.trim().toLowerCase()) ?? null;
+
+export const exportTemplates = (selected: JobTemplate[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, templates: selected }, null, 2);
+
+/** Parses a file produced by `exportTemplates`; throws with a readable message otherwise. */
+export const parseTemplateExport = (text: string): JobTemplate[] => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const result = templateExportSchema.safeParse(json);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    throw new Error(`Not a template export: ${issue.path.join('.') || '(root)'} ${issue.message.toLowerCase()}`);
+  }
+  return result.data.templates as JobTemplate[];
+};
@@ -0,0 +1,55 @@
+import { excludeIds } from '@/lib/id-fixes';
+import { createId } from '@/lib/ids';
+import { tokenizeIds, type IdRange } from '@/lib/id-parser';
+
+// The submission form can hold several jobs at once (say one HIGH job for the
+// customers hit by an incident and a LOW one for everybody else). Each row has
+// its own IDs and priority; rows are submitted in order.
+
+export interface JobRowDraft {
+  /** Stable React key; rows can be removed from the middle. */
+  key: string;
+  idsInput: string;
+  priority: string;
+}
+
+export const createJobRow = (): JobRowDraft => ({
+  key: createId('row_'),
+  idsInput: '',
+  priority: '',
+});
+
+export interface CrossJobDuplicate {
+  id: number;
+  /** Indexes of the rows containing the ID, in order. */
+  rows: number[];
+}
+
+/** IDs that appear in more than one row; repeats within a single row are left to the row's own validation. */
+export const findCrossJobDuplicates = (idLists: number[][]): CrossJobDuplicate[] => {
+  const rowsById = new Map<number, number[]>();
+  idLists.forEach((ids, row) => {
+    new Set(ids).forEach(id => rowsById.set(id, [...(rowsById.get(id) ?? []), row]));
+  });
+  return [...rowsById.entries()]
+    .filter(([, rows]) => rows.length > 1)
+    .map(([id, rows]) => ({ id, rows }))
+    .sort((a, b) => a.id - b.id);
+};
+
+/**
+ * Rewrites every row so each ID only stays in the first row that has it.
+ * Rows left without any IDs are dropped, so the rest move up a place.
+ */
+export const keepInFirstJobOnly = <T extends { idsInput: string }>(rows: T[], allowedRanges?: IdRange[]): T[] => {
+  const idLists = rows.map(row => tokenizeIds(row.idsInput, allowedRanges).flatMap(token => token.ids));
+  const duplicates = findCrossJobDuplicates(idLists);
+  return rows.flatMap((row, index) => {
+    const excluded = new Set(
+      duplicates.filter(duplicate => duplicate.rows.indexOf(index) > 0).map(duplicate => duplicate.id),
+    );
+    if (!excluded.size) return [row];
+    const { input } = excludeIds(row.idsInput, excluded, allowedRanges);
+    return input.trim() ? [{ ...row, idsInput: input }] : [];
+  });
+};
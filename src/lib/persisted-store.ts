@@ -0,0 +1,66 @@
+import { readJson, removeStorage, writeJson } from '@/lib/storage';
+
+// A value kept in localStorage and cached in memory, with change listeners for
+// `useSyncExternalStore`. Writes made by other tabs arrive through the
+// `storage` event and drop the cache, so no tab keeps working off a stale copy
+// and overwrites what another one saved.
+
+export interface PersistedStoreOptions<T> {
+  /**
+   * Applied once, to the first value read in this page: cleans up what a
+   * closed tab left behind. Later reloads after another tab's write skip it,
+   * since that tab is still alive.
+   */
+  recover?: (stored: T) => T;
+}
+
+export const createPersistedStore = <T>(key: string, fallback: T, { recover }: PersistedStoreOptions<T> = {}) => {
+  let cached: { value: T } | null = null;
+  let recovered = false;
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const syncFromOtherTab = (event: StorageEvent) => {
+    // A null key means the whole storage was cleared
+    if (event.key !== null && event.key !== key) return;
+    cached = null;
+    notify();
+  };
+
+  return {
+    get: (): T => {
+      if (!cached) {
+        let value = readJson<T>(key, fallback);
+        if (recover && !recovered) value = recover(value);
+        recovered = true;
+        cached = { value };
+      }
+      return cached.value;
+    },
+
+    set: (next: T) => {
+      cached = { value: next };
+      writeJson(key, next);
+      notify();
+    },
+
+    /** Removes the stored value; `get` returns the fallback again. */
+    clear: () => {
+      cached = { value: fallback };
+      removeStorage(key);
+      notify();
+    },
+
+    subscribe: (listener: () => void) => {
+      if (listeners.size === 0) window.addEventListener('storage', syncFromOtherTab);
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) window.removeEventListener('storage', syncFromOtherTab);
+      };
+    },
+  };
+};
+
+export type PersistedStore<T> = ReturnType<typeof createPersistedStore<T>>;
@@ -0,0 +1,29 @@
+import { QueryClient } from '@tanstack/react-query';
+import { isTransientError } from '@/lib/api';
+
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY = 500;
+const RETRY_MAX_DELAY = 10000;
+
+// Client errors, contract mismatches and an open circuit won't fix themselves on retry.
+const shouldRetry = (failureCount: number, error: unknown) =>
+  isTransientError(error) && failureCount < MAX_RETRIES;
+
+/** Exponential backoff with "full jitter" so many tabs don't retry in lockstep. */
+export const backoffDelay = (attempt: number, baseDelay = RETRY_BASE_DELAY, maxDelay = RETRY_MAX_DELAY) =>
+  Math.round(Math.random() * Math.min(maxDelay, baseDelay * 2 ** attempt));
+
+export const createQueryClient = () =>
+  new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: shouldRetry,
+        retryDelay: attempt => backoffDelay(attempt),
+        staleTime: 2000,
+        refetchOnWindowFocus: false,
+      },
+      mutations: {
+        retry: false,
+      },
+    },
+  });
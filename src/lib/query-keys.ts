@@ -0,0 +1,9 @@
+// Query keys are scoped by environment so cached data from one backend is
+// never shown while pointed at another.
+export const ingestionKeys = {
+  all: (environmentId: string) => ['ingestion', environmentId] as const,
+  status: (environmentId: string, ingestionId: string) =>
+    [...ingestionKeys.all(environmentId), 'status', ingestionId] as const,
+  policy: (environmentId: string) => [...ingestionKeys.all(environmentId), 'policy'] as const,
+  queue: (environmentId: string) => [...ingestionKeys.all(environmentId), 'queue'] as const,
+};
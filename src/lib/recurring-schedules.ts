@@ -0,0 +1,147 @@
+import type { JobMetadata, Priority } from '@/lib/api';
+import { nextCronRun, parseCron } from '@/lib/cron';
+import { createId } from '@/lib/ids';
+import { createPersistedStore } from '@/lib/persisted-store';
+
+// Jobs submitted over and over on a cron rule ("every night at 02:00"), plus a
+// log of every occurrence. Like one-off schedules they live in this browser
+// and only run while a dashboard tab is open.
+
+export interface RecurringSchedule {
+  id: string;
+  name: string;
+  environmentId: string;
+  /** Raw editor text, kept so the schedule can be edited as it was written. */
+  idsInput: string;
+  ids: number[];
+  priority: Priority;
+  metadata?: JobMetadata;
+  cron: string;
+  enabled: boolean;
+  createdAt: string;
+  /** ISO timestamp of the next occurrence; null when disabled or the rule never fires. */
+  nextRunAt: string | null;
+}
+
+export type RecurringScheduleDraft = Pick<
+  RecurringSchedule,
+  'name' | 'environmentId' | 'idsInput' | 'ids' | 'priority' | 'metadata' | 'cron'
+>;
+
+export type RecurringRunStatus = 'submitting' | 'submitted' | 'failed' | 'missed';
+
+export interface RecurringRun {
+  id: string;
+  scheduleId: string;
+  /** The occurrence this run belongs to, as opposed to when it actually started. */
+  scheduledFor: string;
+  startedAt: string;
+  status: RecurringRunStatus;
+  ingestionId?: string;
+  error?: string;
+}
+
+const SCHEDULES_KEY = 'ingest-flow:recurring-schedules';
+const RUNS_KEY = 'ingest-flow:recurring-runs';
+const MAX_RUNS = 200;
+
+/**
+ * An occurrence found more than this late (no tab was open at the time) is
+ * logged as missed instead of being submitted hours after it was meant to.
+ */
+export const MISSED_RUN_GRACE_MS = 15 * 60 * 1000;
+
+const scheduleState = createPersistedStore<RecurringSchedule[]>(SCHEDULES_KEY, []);
+// Whatever was in flight when the last tab closed never reported back
+const runState = createPersistedStore<RecurringRun[]>(RUNS_KEY, [], {
+  recover: stored =>
+    stored.map(run =>
+      run.status === 'submitting' ? { ...run, status: 'failed', error: 'Interrupted before the backend answered' } : run,
+    ),
+});
+
+export const nextRunAfter = (cron: string, after: Date): string | null => {
+  try {
+    return nextCronRun(parseCron(cron), after)?.toISOString() ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const saveSchedules = scheduleState.set;
+
+const saveRuns = (next: RecurringRun[]) => runState.set(next.slice(0, MAX_RUNS));
+
+const patchSchedule = (id: string, changes: Partial<RecurringSchedule>) =>
+  saveSchedules(recurringStore.list().map(schedule => (schedule.id === id ? { ...schedule, ...changes } : schedule)));
+
+const patchRun = (id: string, changes: Partial<RecurringRun>) =>
+  saveRuns(recurringStore.runs().map(run => (run.id === id ? { ...run, ...changes } : run)));
+
+export const recurringStore = {
+  list: scheduleState.get,
+
+  /** Newest first. */
+  runs: runState.get,
+
+  subscribe: (listener: () => void) => {
+    const unsubscribes = [scheduleState.subscribe(listener), runState.subscribe(listener)];
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  },
+
+  create: (draft: RecurringScheduleDraft): RecurringSchedule => {
+    const schedule: RecurringSchedule = {
+      ...draft,
+      id: createId('rec_'),
+      enabled: true,
+      createdAt: new Date().toISOString(),
+      nextRunAt: nextRunAfter(draft.cron, new Date()),
+    };
+    saveSchedules([...recurringStore.list(), schedule]);
+    return schedule;
+  },
+
+  edit: (id: string, draft: RecurringScheduleDraft) => {
+    const enabled = recurringStore.list().find(schedule => schedule.id === id)?.enabled ?? false;
+    patchSchedule(id, { ...draft, nextRunAt: enabled ? nextRunAfter(draft.cron, new Date()) : null });
+  },
+
+  setEnabled: (id: string, enabled: boolean) => {
+    const schedule = recurringStore.list().find(candidate => candidate.id === id);
+    if (!schedule) return;
+    patchSchedule(id, { enabled, nextRunAt: enabled ? nextRunAfter(schedule.cron, new Date()) : null });
+  },
+
+  /** The run log is kept, so past ingestion IDs stay traceable. */
+  remove: (id: string) => saveSchedules(recurringStore.list().filter(schedule => schedule.id !== id)),
+
+  /**
+   * Moves a due schedule on to its next occurrence and logs the one that was
+   * due. Returns the run to submit, or null when it was too late and is only
+   * logged as missed.
+   */
+  claimOccurrence: (id: string, now = new Date()): RecurringRun | null => {
+    const schedule = recurringStore.list().find(candidate => candidate.id === id);
+    if (!schedule?.enabled || !schedule.nextRunAt || Date.parse(schedule.nextRunAt) > now.getTime()) return null;
+
+    patchSchedule(id, { nextRunAt: nextRunAfter(schedule.cron, now) });
+    const missed = now.getTime() - Date.parse(schedule.nextRunAt) > MISSED_RUN_GRACE_MS;
+    const run: RecurringRun = {
+      id: createId('run_'),
+      scheduleId: id,
+      scheduledFor: schedule.nextRunAt,
+      startedAt: now.toISOString(),
+      status: missed ? 'missed' : 'submitting',
+      error: missed ? 'The dashboard was not open at the scheduled time' : undefined,
+    };
+    saveRuns([run, ...recurringStore.runs()]);
+    return missed ? null : run;
+  },
+
+  markRunSubmitted: (runId: string, ingestionId: string) => patchRun(runId, { status: 'submitted', ingestionId }),
+
+  markRunFailed: (runId: string, error: string) => patchRun(runId, { status: 'failed', error }),
+};
+
+/** Same key for the same occurrence, so two tabs running it create a single job. */
+export const occurrenceIdempotencyKey = (run: RecurringRun) => `${run.scheduleId}:${run.scheduledFor}`;
@@ -0,0 +1,107 @@
+import type { JobMetadata, Priority } from '@/lib/api';
+import { createIdempotencyKey } from '@/lib/idempotency';
+import { MISSED_RUN_GRACE_MS } from '@/lib/recurring-schedules';
+import { createId } from '@/lib/ids';
+import { createPersistedStore } from '@/lib/persisted-store';
+
+// Jobs queued to be submitted at a later time. The queue lives in this browser
+// and is only worked off while a dashboard tab is open; see
+// `useScheduledSubmissionRunner`.
+
+export type ScheduleStatus = 'pending' | 'submitting' | 'submitted' | 'failed';
+
+export interface ScheduledSubmission {
+  id: string;
+  environmentId: string;
+  ids: number[];
+  priority: Priority;
+  metadata?: JobMetadata;
+  /** ISO timestamp the job should be submitted at. */
+  runAt: string;
+  createdAt: string;
+  status: ScheduleStatus;
+  /**
+   * Sent with every attempt, so a submission that fires twice (two open tabs,
+   * a reload mid-request) still creates only one job.
+   */
+  idempotencyKey: string;
+  submittedAt?: string;
+  ingestionId?: string;
+  error?: string;
+}
+
+export type ScheduleDraft = Pick<ScheduledSubmission, 'environmentId' | 'ids' | 'priority' | 'metadata' | 'runAt'>;
+
+const STORAGE_KEY = 'ingest-flow:scheduled-submissions';
+/** Submitted and failed entries kept for the history list. */
+const MAX_FINISHED = 20;
+
+// A tab closed mid-request left these behind; the idempotency key makes retrying safe
+const store = createPersistedStore<ScheduledSubmission[]>(STORAGE_KEY, [], {
+  recover: stored =>
+    stored.map(schedule => (schedule.status === 'submitting' ? { ...schedule, status: 'pending' } : schedule)),
+});
+
+const byRunAt = (a: ScheduledSubmission, b: ScheduledSubmission) => Date.parse(a.runAt) - Date.parse(b.runAt);
+
+const update = (next: ScheduledSubmission[]) => {
+  const active = next.filter(schedule => schedule.status === 'pending' || schedule.status === 'submitting');
+  const finished = next
+    .filter(schedule => schedule.status === 'submitted' || schedule.status === 'failed')
+    .sort((a, b) => Date.parse(b.submittedAt ?? b.runAt) - Date.parse(a.submittedAt ?? a.runAt))
+    .slice(0, MAX_FINISHED);
+  store.set([...active.sort(byRunAt), ...finished]);
+};
+
+const patch = (id: string, changes: Partial<ScheduledSubmission>) =>
+  update(scheduleStore.list().map(schedule => (schedule.id === id ? { ...schedule, ...changes } : schedule)));
+
+export const scheduleStore = {
+  list: store.get,
+
+  subscribe: store.subscribe,
+
+  add: (draft: ScheduleDraft): ScheduledSubmission => {
+    const schedule: ScheduledSubmission = {
+      ...draft,
+      id: createId('sch_'),
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      idempotencyKey: createIdempotencyKey(),
+    };
+    update([...scheduleStore.list(), schedule]);
+    return schedule;
+  },
+
+  /** Moves a pending or failed schedule; a failed one is queued again. */
+  reschedule: (id: string, changes: Partial<Pick<ScheduledSubmission, 'runAt' | 'priority'>>) =>
+    patch(id, { ...changes, status: 'pending', error: undefined }),
+
+  cancel: (id: string) => update(scheduleStore.list().filter(schedule => schedule.id !== id)),
+
+  /**
+   * Claims a due schedule for submission. Returns false when it is no longer
+   * pending, e.g. it was cancelled or another run already picked it up, and
+   * when it is found more than `MISSED_RUN_GRACE_MS` late: that one is marked
+   * failed as missed, and only runs if the user retries it.
+   */
+  claim: (id: string, now = Date.now()): boolean => {
+    const schedule = scheduleStore.list().find(candidate => candidate.id === id);
+    if (schedule?.status !== 'pending') return false;
+    if (now - Date.parse(schedule.runAt) > MISSED_RUN_GRACE_MS) {
+      scheduleStore.markFailed(id, 'Missed: the dashboard was not open at the scheduled time');
+      return false;
+    }
+    patch(id, { status: 'submitting' });
+    return true;
+  },
+
+  markSubmitted: (id: string, ingestionId: string) =>
+    patch(id, { status: 'submitted', ingestionId, submittedAt: new Date().toISOString() }),
+
+  markFailed: (id: string, error: string) =>
+    patch(id, { status: 'failed', error, submittedAt: new Date().toISOString() }),
+};
+
+export const isDue = (schedule: ScheduledSubmission, now = Date.now()) =>
+  schedule.status === 'pending' && Date.parse(schedule.runAt) <= now;
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+
+// Wire contracts of the ingestion backend. Types used across the app are
+// inferred from these so the runtime checks and the compile-time shapes can't drift.
+
+export const priorityValues = ['HIGH', 'MEDIUM', 'LOW'] as const;
+
+export const prioritySchema = z.enum(priorityValues);
+
+export const batchStatusSchema = z.enum(['yet_to_start', 'triggered', 'completed']);
+
+export const batchSchema = z.object({
+  batch_id: z.string(),
+  ids: z.array(z.number().int()),
+  status: batchStatusSchema,
+});
+
+/** Optional context sent with a job and echoed back with its status. */
+export const jobMetadataSchema = z.object({
+  labels: z.array(z.string()).optional(),
+  description: z.string().optional(),
+  owner: z.string().optional(),
+  /** Ticket or change request the job belongs to, e.g. `OPS-1234`. */
+  external_ref: z.string().optional(),
+});
+
+export const ingestionStatusSchema = z.object({
+  ingestion_id: z.string(),
+  status: batchStatusSchema,
+  batches: z.array(batchSchema),
+  priority: z.string().optional(),
+  created_at: z.string().optional(),
+  ...jobMetadataSchema.shape,
+});
+
+export const ingestResponseSchema = z.object({
+  ingestion_id: z.string().min(1),
+  /** Set when the idempotency key had already been used and no new job was created. */
+  replayed: z.boolean().optional(),
+});
+
+export const idRangeSchema = z.object({
+  min: z.number().int(),
+  /** Inclusive; open-ended when absent. */
+  max: z.number().int().optional(),
+});
+
+export const validationPolicySchema = z.object({
+  max_ids_per_job: z.number().int().positive(),
+  /** An ID is accepted when it falls into any of these. */
+  allowed_id_ranges: z.array(idRangeSchema).min(1).optional(),
+  /** Values the dashboard doesn't know are reported and left out rather than rejected; see `toValidationPolicy`. */
+  priorities: z
+    .array(z.object({ value: z.string(), description: z.string().optional() }))
+    .min(1)
+    .optional(),
+});
+
+export const queueSnapshotSchema = z.object({
+  batch_size: z.number().int().positive(),
+  /** Batches are processed one at a time, each taking this long. */
+  batch_duration_seconds: z.number().positive(),
+  /** Batches waiting to start, by priority. */
+  queued_batches: z.record(z.string(), z.number().int().nonnegative()),
+  /** When the batch being processed right now finishes; absent while the queue is idle. */
+  current_batch_ends_at: z.string().optional(),
+});
+
+export type Priority = z.infer<typeof prioritySchema>;
+export type BatchStatus = z.infer<typeof batchStatusSchema>;
+export type Batch = z.infer<typeof batchSchema>;
+export type JobMetadata = z.infer<typeof jobMetadataSchema>;
+export type IngestionStatus = z.infer<typeof ingestionStatusSchema>;
+export type IngestResponse = z.infer<typeof ingestResponseSchema>;
+export type ValidationPolicyResponse = z.infer<typeof validationPolicySchema>;
+export type QueueSnapshotResponse = z.infer<typeof queueSnapshotSchema>;
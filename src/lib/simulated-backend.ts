@@ -0,0 +1,280 @@
+import { IDEMPOTENCY_KEY_REUSED } from '@/lib/api';
+import type { Batch, BatchStatus, IngestionStatus, JobMetadata, Priority } from '@/lib/schemas';
+import { jobMetadataSchema, priorityValues } from '@/lib/schemas';
+import { readJson, writeJson } from '@/lib/storage';
+
+// An in-browser stand-in for the Python ingestion service, exposed as a
+// `fetch` implementation so the API client doesn't know the difference.
+//
+// Semantics match the real service: IDs are split into batches of 3, one
+// batch is processed per time window, and the next batch is always picked by
+// priority (HIGH > MEDIUM > LOW) and then by job creation time.
+
+export const SIMULATED_BASE_URL = 'simulated://ingest';
+
+const BATCH_SIZE = 3;
+const PROCESSING_WINDOW_MS = 5000;
+const MAX_ID = 1_000_000_007;
+
+const POLICY = {
+  max_ids_per_job: 100,
+  allowed_id_ranges: [{ min: 1, max: MAX_ID }],
+  priorities: [
+    { value: 'HIGH', description: 'Process immediately' },
+    { value: 'MEDIUM', description: 'Standard processing' },
+    { value: 'LOW', description: 'Process when resources available' },
+  ],
+};
+
+const STORAGE_KEY = 'ingest-flow:simulated-backend';
+
+const PRIORITY_RANK: Record<Priority, number> = { HIGH: 0, MEDIUM: 1, LOW: 2 };
+
+interface SimulatedJob extends JobMetadata {
+  ingestion_id: string;
+  priority: Priority;
+  created_at: string;
+  batches: Batch[];
+}
+
+interface SimulatedState {
+  jobs: SimulatedJob[];
+  idempotencyKeys: Record<string, string>;
+  /** Start of the current processing window, or null while the queue is idle. */
+  windowStartedAt: number | null;
+  nextJobNumber: number;
+}
+
+const emptyState = (): SimulatedState => ({
+  jobs: [],
+  idempotencyKeys: {},
+  windowStartedAt: null,
+  nextJobNumber: 1,
+});
+
+const nextQueuedBatch = (jobs: SimulatedJob[]): Batch | undefined => {
+  const queued = jobs
+    .filter(job => job.batches.some(batch => batch.status === 'yet_to_start'))
+    .sort((a, b) =>
+      PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+      Date.parse(a.created_at) - Date.parse(b.created_at));
+  return queued[0]?.batches.find(batch => batch.status === 'yet_to_start');
+};
+
+/**
+ * Replays every processing window that has elapsed up to `now`: the batch
+ * triggered in a window completes when it ends, and the next one in the
+ * queue is triggered straight away.
+ */
+const advance = (state: SimulatedState, now: number) => {
+  while (state.windowStartedAt !== null && now >= state.windowStartedAt + PROCESSING_WINDOW_MS) {
+    state.jobs
+      .flatMap(job => job.batches)
+      .filter(batch => batch.status === 'triggered')
+      .forEach(batch => {
+        batch.status = 'completed';
+      });
+    const next = nextQueuedBatch(state.jobs);
+    if (next) {
+      next.status = 'triggered';
+      state.windowStartedAt += PROCESSING_WINDOW_MS;
+    } else {
+      state.windowStartedAt = null;
+    }
+  }
+
+  if (state.windowStartedAt === null) {
+    const next = nextQueuedBatch(state.jobs);
+    if (next) {
+      next.status = 'triggered';
+      state.windowStartedAt = now;
+    }
+  }
+};
+
+const overallStatus = (batches: Batch[]): BatchStatus => {
+  if (batches.every(batch => batch.status === 'completed')) return 'completed';
+  if (batches.some(batch => batch.status !== 'yet_to_start')) return 'triggered';
+  return 'yet_to_start';
+};
+
+const toStatus = (job: SimulatedJob): IngestionStatus => ({
+  ingestion_id: job.ingestion_id,
+  status: overallStatus(job.batches),
+  batches: job.batches.map(batch => ({ ...batch, ids: [...batch.ids] })),
+  priority: job.priority,
+  created_at: job.created_at,
+  labels: job.labels,
+  description: job.description,
+  owner: job.owner,
+  external_ref: job.external_ref,
+});
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const validateIngestBody = (body: unknown): ({ ids: number[]; priority: Priority } & JobMetadata) | string => {
+  if (!body || typeof body !== 'object') return 'Request body must be a JSON object';
+  const { ids, priority, ...rest } = body as { ids?: unknown; priority?: unknown };
+  if (!Array.isArray(ids) || ids.length === 0) return 'ids must be a non-empty array';
+  if (!ids.every(id => Number.isInteger(id) && id >= 1 && id <= MAX_ID)) {
+    return `ids must be integers between 1 and ${MAX_ID}`;
+  }
+  if (!priorityValues.includes(priority as Priority)) {
+    return `priority must be one of ${priorityValues.join(', ')}`;
+  }
+  const metadata = jobMetadataSchema.safeParse(rest);
+  if (!metadata.success) {
+    const [issue] = metadata.error.issues;
+    return `${issue.path.join('.')}: ${issue.message}`;
+  }
+  return { ids: ids as number[], priority: priority as Priority, ...metadata.data };
+};
+
+const delay = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) abort();
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+
+export interface SimulatedBackendOptions {
+  /** Artificial latency range in ms, so loading states are visible in demos. */
+  latency?: [number, number];
+  /** Persist jobs in localStorage so they survive a reload. */
+  persist?: boolean;
+  now?: () => number;
+}
+
+export const createSimulatedBackend = ({
+  latency = [150, 400],
+  persist = true,
+  now = Date.now,
+}: SimulatedBackendOptions = {}) => {
+  let state = persist ? { ...emptyState(), ...readJson<Partial<SimulatedState>>(STORAGE_KEY, {}) } : emptyState();
+
+  const commit = () => {
+    if (persist) writeJson(STORAGE_KEY, state);
+  };
+
+  const ingest = (rawBody: string | null, idempotencyKey: string | null) => {
+    let body: unknown;
+    try {
+      body = rawBody ? JSON.parse(rawBody) : null;
+    } catch {
+      return json(400, { error: 'Request body must be valid JSON' });
+    }
+    const payload = validateIngestBody(body);
+    if (typeof payload === 'string') return json(400, { error: payload });
+
+    if (idempotencyKey && state.idempotencyKeys[idempotencyKey]) {
+      return json(409, {
+        error: 'Idempotency key already used',
+        code: IDEMPOTENCY_KEY_REUSED,
+        ingestion_id: state.idempotencyKeys[idempotencyKey],
+      });
+    }
+
+    const jobNumber = state.nextJobNumber++;
+    const ingestionId = `ing_sim_${String(jobNumber).padStart(6, '0')}`;
+    const batches: Batch[] = [];
+    for (let start = 0; start < payload.ids.length; start += BATCH_SIZE) {
+      batches.push({
+        batch_id: `${ingestionId}_b${batches.length + 1}`,
+        ids: payload.ids.slice(start, start + BATCH_SIZE),
+        status: 'yet_to_start',
+      });
+    }
+    state.jobs.push({
+      ingestion_id: ingestionId,
+      priority: payload.priority,
+      created_at: new Date(now()).toISOString(),
+      batches,
+      labels: payload.labels,
+      description: payload.description,
+      owner: payload.owner,
+      external_ref: payload.external_ref,
+    });
+    if (idempotencyKey) state.idempotencyKeys[idempotencyKey] = ingestionId;
+    advance(state, now());
+    return json(200, { ingestion_id: ingestionId });
+  };
+
+  const status = (ingestionId: string) => {
+    const job = state.jobs.find(candidate => candidate.ingestion_id === ingestionId);
+    return job ? json(200, toStatus(job)) : json(404, { error: 'Ingestion job not found' });
+  };
+
+  const queue = () => {
+    const queuedBatches: Record<string, number> = { HIGH: 0, MEDIUM: 0, LOW: 0 };
+    state.jobs.forEach(job => {
+      queuedBatches[job.priority] += job.batches.filter(batch => batch.status === 'yet_to_start').length;
+    });
+    return json(200, {
+      batch_size: BATCH_SIZE,
+      batch_duration_seconds: PROCESSING_WINDOW_MS / 1000,
+      queued_batches: queuedBatches,
+      current_batch_ends_at:
+        state.windowStartedAt === null ? undefined : new Date(state.windowStartedAt + PROCESSING_WINDOW_MS).toISOString(),
+    });
+  };
+
+  const handle = (method: string, path: string, body: string | null, headers: Headers) => {
+    advance(state, now());
+    if (method === 'POST' && path === '/ingest') {
+      return ingest(body, headers.get('Idempotency-Key'));
+    }
+    if (method === 'GET' && path === '/policy') {
+      return json(200, POLICY);
+    }
+    if (method === 'GET' && path === '/queue') {
+      return queue();
+    }
+    const statusMatch = path.match(/^\/status\/([^/]+)$/);
+    if (method === 'GET' && statusMatch) {
+      return status(decodeURIComponent(statusMatch[1]));
+    }
+    return json(404, { error: `No simulated route for ${method} ${path}` });
+  };
+
+  const fetchImpl = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+    const [min, max] = latency;
+    await delay(min + Math.random() * (max - min), init.signal);
+
+    const response = handle(
+      (init.method ?? 'GET').toUpperCase(),
+      url.pathname,
+      typeof init.body === 'string' ? init.body : null,
+      new Headers(init.headers),
+    );
+    commit();
+    return response;
+  };
+
+  return {
+    fetch: fetchImpl as typeof fetch,
+    reset: () => {
+      state = emptyState();
+      commit();
+    },
+  };
+};
+
+let sharedBackend: ReturnType<typeof createSimulatedBackend> | null = null;
+
+/** The backend behind every simulated environment profile, created on first use. */
+export const getSimulatedBackend = () => {
+  sharedBackend ??= createSimulatedBackend();
+  return sharedBackend;
+};
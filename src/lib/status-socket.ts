@@ -0,0 +1,177 @@
+import { ingestionStatusSchema, type IngestionStatus } from '@/lib/schemas';
+
+/** `unavailable`: the endpoint never accepted a connection; updates are left to the fallbacks. */
+export type SocketState = 'idle' | 'connecting' | 'open' | 'closed' | 'unavailable';
+
+type StatusListener = (status: IngestionStatus) => void;
+type StateListener = (state: SocketState) => void;
+
+// Wire protocol, one JSON object per frame:
+//   client -> server  { "type": "subscribe" | "unsubscribe", "ingestion_ids": string[] }
+//   server -> client  { "type": "status", "data": IngestionStatus }
+type ClientMessage = { type: 'subscribe' | 'unsubscribe'; ingestion_ids: string[] };
+
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+/** Attempts in a row that close before opening; after that the backend is taken to have no socket. */
+const MAX_FAILED_HANDSHAKES = 5;
+
+export interface StatusSocketOptions {
+  url: string;
+  /** Defaults to the browser WebSocket. */
+  createSocket?: (url: string) => WebSocket;
+}
+
+/**
+ * One WebSocket shared by every status view. Subscriptions are reference
+ * counted per ingestion ID, the connection is opened lazily on the first
+ * subscription, and after a drop it reconnects with backoff and re-subscribes
+ * everything that is still being watched. Once `MAX_FAILED_HANDSHAKES`
+ * attempts in a row fail before opening, it gives up for good.
+ */
+export const createStatusSocket = ({ url, createSocket = target => new WebSocket(target) }: StatusSocketOptions) => {
+  const listeners = new Map<string, Set<StatusListener>>();
+  const stateListeners = new Set<StateListener>();
+  let socket: WebSocket | null = null;
+  let state: SocketState = 'idle';
+  let reconnectAttempt = 0;
+  let failedHandshakes = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let disposed = false;
+
+  const setState = (next: SocketState) => {
+    if (next === state) return;
+    state = next;
+    stateListeners.forEach(listener => listener(next));
+  };
+
+  const send = (message: ClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN && message.ingestion_ids.length > 0) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    let message: unknown;
+    try {
+      message = JSON.parse(String(event.data));
+    } catch {
+      console.warn('Ignoring non-JSON status socket frame');
+      return;
+    }
+    const { type, data } = (message ?? {}) as { type?: unknown; data?: unknown };
+    if (type !== 'status') return;
+
+    const result = ingestionStatusSchema.safeParse(data);
+    if (!result.success) {
+      console.warn('Ignoring status socket frame that does not match the status contract', result.error.issues);
+      return;
+    }
+    listeners.get(result.data.ingestion_id)?.forEach(listener => listener(result.data));
+  };
+
+  const handshakeFailed = () => {
+    failedHandshakes += 1;
+    if (failedHandshakes < MAX_FAILED_HANDSHAKES) {
+      scheduleReconnect();
+      return;
+    }
+    console.warn(`Status socket ${url} failed to open ${failedHandshakes} times in a row; falling back to streams and polling`);
+    setState('unavailable');
+  };
+
+  const scheduleReconnect = () => {
+    if (disposed || listeners.size === 0 || reconnectTimer) return;
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** reconnectAttempt, RECONNECT_MAX_DELAY);
+    reconnectAttempt += 1;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    if (disposed || socket || state === 'unavailable') return;
+    setState('connecting');
+
+    let next: WebSocket;
+    try {
+      next = createSocket(url);
+    } catch (error) {
+      console.warn('Could not open status socket', error);
+      setState('closed');
+      handshakeFailed();
+      return;
+    }
+    socket = next;
+
+    let opened = false;
+    next.onopen = () => {
+      opened = true;
+      reconnectAttempt = 0;
+      failedHandshakes = 0;
+      setState('open');
+      send({ type: 'subscribe', ingestion_ids: [...listeners.keys()] });
+    };
+    next.onmessage = handleMessage;
+    next.onclose = () => {
+      if (socket !== next) return;
+      socket = null;
+      setState(listeners.size > 0 ? 'closed' : 'idle');
+      if (opened) scheduleReconnect();
+      else handshakeFailed();
+    };
+  };
+
+  const disconnect = () => {
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    const current = socket;
+    socket = null;
+    current?.close();
+    if (state !== 'unavailable') setState('idle');
+  };
+
+  return {
+    getState: () => state,
+
+    onStateChange: (listener: StateListener) => {
+      stateListeners.add(listener);
+      return () => {
+        stateListeners.delete(listener);
+      };
+    },
+
+    subscribe: (ingestionId: string, listener: StatusListener) => {
+      let set = listeners.get(ingestionId);
+      if (!set) {
+        set = new Set();
+        listeners.set(ingestionId, set);
+        send({ type: 'subscribe', ingestion_ids: [ingestionId] });
+      }
+      set.add(listener);
+      connect();
+
+      return () => {
+        const current = listeners.get(ingestionId);
+        if (!current) return;
+        current.delete(listener);
+        if (current.size > 0) return;
+        listeners.delete(ingestionId);
+        send({ type: 'unsubscribe', ingestion_ids: [ingestionId] });
+        if (listeners.size === 0) disconnect();
+      };
+    },
+
+    dispose: () => {
+      disposed = true;
+      listeners.clear();
+      stateListeners.clear();
+      disconnect();
+    },
+  };
+};
+
+export type StatusSocket = ReturnType<typeof createStatusSocket>;
@@ -0,0 +1,40 @@
+// localStorage can throw (private mode, quota, disabled storage); these helpers
+// degrade to "nothing stored" instead of breaking the page.
+
+export const readStorage = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+export const writeStorage = (key: string, value: string) => {
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    // The value just won't persist.
+  }
+};
+
+export const removeStorage = (key: string) => {
+  try {
+    localStorage.removeItem(key);
+  } catch {
+    // Nothing to clean up.
+  }
+};
+
+export const readJson = <T>(key: string, fallback: T): T => {
+  const raw = readStorage(key);
+  if (raw === null) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+export const writeJson = (key: string, value: unknown) => {
+  writeStorage(key, JSON.stringify(value));
+};
@@ -0,0 +1,112 @@
+import { ApiError, CircuitOpenError, ContractMismatchError } from '@/lib/api';
+
+export type SubmissionField = 'ids' | 'priority';
+
+export type FieldErrors = Partial<Record<SubmissionField, string[]>>;
+
+export type SubmissionError =
+  | { kind: 'validation'; message: string; fieldErrors: FieldErrors }
+  | { kind: 'conflict'; message: string; ingestionId?: string }
+  | { kind: 'too_many_ids'; message: string; maxIds?: number }
+  | { kind: 'rate_limited'; message: string; retryAt: number }
+  | { kind: 'unauthorized'; message: string }
+  | { kind: 'server'; message: string }
+  | { kind: 'contract'; message: string; error: ContractMismatchError }
+  | { kind: 'unknown'; message: string };
+
+const DEFAULT_RATE_LIMIT_SECONDS = 30;
+
+const fieldFor = (name: unknown): SubmissionField | null => {
+  const path = Array.isArray(name) ? name.map(String) : [String(name ?? '')];
+  if (path.some(part => part === 'ids' || part.startsWith('ids['))) return 'ids';
+  if (path.includes('priority')) return 'priority';
+  return null;
+};
+
+const asMessages = (value: unknown): string[] => {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string');
+  return [];
+};
+
+/**
+ * Pulls per-field messages out of the validation error shapes we see in the
+ * wild: `{ errors: { ids: "..." | [...] } }` and FastAPI/pydantic style
+ * `{ detail: [{ loc: ["body", "ids", 3], msg: "..." }] }` or
+ * `{ details: [{ field: "ids", message: "..." }] }`.
+ */
+const extractFieldErrors = (body: unknown): FieldErrors => {
+  const fieldErrors: FieldErrors = {};
+  const add = (field: SubmissionField | null, messages: string[]) => {
+    if (!field || messages.length === 0) return;
+    fieldErrors[field] = [...(fieldErrors[field] ?? []), ...messages];
+  };
+  if (!body || typeof body !== 'object') return fieldErrors;
+
+  const { errors, detail, details } = body as { errors?: unknown; detail?: unknown; details?: unknown };
+  if (errors && typeof errors === 'object' && !Array.isArray(errors)) {
+    Object.entries(errors).forEach(([name, value]) => add(fieldFor(name), asMessages(value)));
+  }
+  [detail, details].filter(Array.isArray).flat().forEach(item => {
+    if (!item || typeof item !== 'object') return;
+    const { loc, field, msg, message } = item as Record<string, unknown>;
+    add(fieldFor(loc ?? field), asMessages(msg ?? message));
+  });
+  return fieldErrors;
+};
+
+/** Retry-After is either delta-seconds or an HTTP date. */
+const parseRetryAfter = (value: string | null | undefined, now: number): number => {
+  if (value) {
+    const seconds = Number(value);
+    if (Number.isFinite(seconds) && seconds >= 0) return now + seconds * 1000;
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) return Math.max(now, date);
+  }
+  return now + DEFAULT_RATE_LIMIT_SECONDS * 1000;
+};
+
+const numberField = (body: unknown, key: string): number | undefined => {
+  const value = body && typeof body === 'object' ? (body as Record<string, unknown>)[key] : undefined;
+  return typeof value === 'number' ? value : undefined;
+};
+
+/** Maps whatever `submitIngestion` threw onto something the form can render inline. */
+export const classifySubmissionError = (error: unknown, now = Date.now()): SubmissionError => {
+  if (error instanceof ContractMismatchError) {
+    return {
+      kind: 'contract',
+      message: 'The backend responded in an unexpected format; the job may still have been created.',
+      error,
+    };
+  }
+  if (error instanceof CircuitOpenError) {
+    return { kind: 'server', message: 'The ingestion service is unreachable right now. Try again shortly.' };
+  }
+  if (!(error instanceof ApiError)) {
+    return { kind: 'unknown', message: 'Failed to submit ingestion job. Please try again.' };
+  }
+
+  const { status, body, message } = error;
+  if (status === null || status >= 500) {
+    return { kind: 'server', message: `The ingestion service failed to accept the job (${message}). It is safe to retry.` };
+  }
+  switch (status) {
+    case 400:
+    case 422:
+      return { kind: 'validation', message, fieldErrors: extractFieldErrors(body) };
+    case 401:
+    case 403:
+      return { kind: 'unauthorized', message: status === 401 ? 'Your session has expired. Please sign in again.' : message };
+    case 409: {
+      const ingestionId = (body as { ingestion_id?: unknown } | null)?.ingestion_id;
+      return { kind: 'conflict', message, ingestionId: typeof ingestionId === 'string' ? ingestionId : undefined };
+    }
+    case 413:
+      return { kind: 'too_many_ids', message, maxIds: numberField(body, 'max_ids') };
+    case 429:
+      return { kind: 'rate_limited', message, retryAt: parseRetryAfter(error.headers?.get('Retry-After'), now) };
+    default:
+      return { kind: 'unknown', message };
+  }
+};
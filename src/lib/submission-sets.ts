@@ -0,0 +1,51 @@
+import type { JobMetadata, Priority } from '@/lib/api';
+import { createId } from '@/lib/ids';
+import { readJson, writeJson } from '@/lib/storage';
+
+// A submission set groups the jobs created by one submit of the form, when an
+// oversized ID list was split or several jobs were built at once, so they can
+// be tracked as a single unit. Sets only exist in this browser; the backend
+// just sees independent jobs.
+
+export const SUBMISSION_SET_PREFIX = 'set_';
+
+export interface SubmissionSet {
+  id: string;
+  environmentId: string;
+  /** Priority of the first job; see `jobPriorities` for sets that mix them. */
+  priority: Priority;
+  /** One per chunk, only set when the jobs don't all share `priority`. */
+  jobPriorities?: Priority[];
+  /** Sent with every job of the set. */
+  metadata?: JobMetadata;
+  createdAt: string;
+  totalIds: number;
+  /** One per chunk, in submission order; shorter than `chunkCount` while incomplete. */
+  ingestionIds: string[];
+  chunkCount: number;
+}
+
+const STORAGE_KEY = 'ingest-flow:submission-sets';
+const MAX_STORED_SETS = 50;
+
+export const isSubmissionSetId = (id: string) => id.startsWith(SUBMISSION_SET_PREFIX);
+
+export const chunkIds = (ids: number[], size: number): number[][] => {
+  const chunks: number[][] = [];
+  for (let start = 0; start < ids.length; start += size) {
+    chunks.push(ids.slice(start, start + size));
+  }
+  return chunks;
+};
+
+export const createSubmissionSetId = () => createId(SUBMISSION_SET_PREFIX);
+
+export const loadSubmissionSets = (): SubmissionSet[] => readJson<SubmissionSet[]>(STORAGE_KEY, []);
+
+export const getSubmissionSet = (id: string) => loadSubmissionSets().find(set => set.id === id) ?? null;
+
+/** Inserts or replaces a set, keeping only the most recent ones. */
+export const saveSubmissionSet = (set: SubmissionSet) => {
+  const others = loadSubmissionSets().filter(existing => existing.id !== set.id);
+  writeJson(STORAGE_KEY, [set, ...others].slice(0, MAX_STORED_SETS));
+};
@@ -0,0 +1,69 @@
+import { priorityValues, type Priority, type ValidationPolicyResponse } from '@/lib/schemas';
+import { DEFAULT_ID_RANGES, MAX_IDS_PER_JOB, type IdRange } from '@/lib/id-parser';
+
+// What the submission form accepts. Backends that expose `GET /policy` decide
+// it; everything else gets the limits the dashboard has always enforced.
+
+export interface PriorityLevel {
+  value: Priority;
+  description: string;
+}
+
+export interface ValidationPolicy {
+  maxIdsPerJob: number;
+  idRanges: IdRange[];
+  priorities: PriorityLevel[];
+  /** Levels the backend offers that this dashboard can't submit yet. */
+  unsupportedPriorities: string[];
+}
+
+export const DEFAULT_PRIORITY_LEVELS: PriorityLevel[] = [
+  { value: 'HIGH', description: 'Process immediately' },
+  { value: 'MEDIUM', description: 'Standard processing' },
+  { value: 'LOW', description: 'Process when resources available' },
+];
+
+/** Badge colour of each priority level wherever one is picked. */
+export const PRIORITY_BADGE_COLORS: Record<Priority, string> = {
+  HIGH: 'bg-red-500',
+  MEDIUM: 'bg-yellow-500',
+  LOW: 'bg-green-500',
+};
+
+export const DEFAULT_VALIDATION_POLICY: ValidationPolicy = {
+  maxIdsPerJob: MAX_IDS_PER_JOB,
+  idRanges: DEFAULT_ID_RANGES,
+  priorities: DEFAULT_PRIORITY_LEVELS,
+  unsupportedPriorities: [],
+};
+
+const isKnownPriority = (value: string): value is Priority => (priorityValues as readonly string[]).includes(value);
+
+export const toValidationPolicy = (response: ValidationPolicyResponse): ValidationPolicy => {
+  const unsupportedPriorities = (response.priorities ?? [])
+    .map(level => level.value)
+    .filter(value => !isKnownPriority(value));
+  if (unsupportedPriorities.length) {
+    // The server is the source of truth; a level it added should not vanish without a trace
+    console.warn(
+      `GET /policy offers priorities this dashboard cannot submit: ${unsupportedPriorities.join(', ')}. ` +
+        `Supported: ${priorityValues.join(', ')}.`,
+    );
+  }
+
+  const priorities = (response.priorities ?? [])
+    .filter(level => isKnownPriority(level.value))
+    .map(level => ({
+      value: level.value as Priority,
+      description:
+        level.description ?? DEFAULT_PRIORITY_LEVELS.find(known => known.value === level.value)?.description ?? '',
+    }));
+
+  return {
+    maxIdsPerJob: response.max_ids_per_job,
+    idRanges: response.allowed_id_ranges?.map(({ min, max }) => ({ min, max })) ?? DEFAULT_ID_RANGES,
+    // A policy naming only priorities we can't submit would leave the form unusable
+    priorities: priorities.length > 0 ? priorities : DEFAULT_PRIORITY_LEVELS,
+    unsupportedPriorities,
+  };
+};
@@ -2,11 +2,18 @@
 import { useState } from 'react';
 import IngestionForm from '../components/IngestionForm';
 import StatusTracker from '../components/StatusTracker';
+import RecurringSchedules from '../components/RecurringSchedules';
+import EnvironmentSwitcher from '../components/EnvironmentSwitcher';
+import ConnectionHealthIndicator from '../components/ConnectionHealthIndicator';
+import AccountMenu from '../components/AccountMenu';
+import ProductionBanner from '../components/ProductionBanner';
 import { Button } from '@/components/ui/button';
+import { useEnvironment } from '@/hooks/use-environment';
 
 const Index = () => {
-  const [activeView, setActiveView] = useState<'form' | 'status'>('form');
+  const [activeView, setActiveView] = useState<'form' | 'status' | 'schedules'>('form');
   const [currentIngestionId, setCurrentIngestionId] = useState<string>('');
+  const { environment } = useEnvironment();
 
   const handleIngestionSubmitted = (ingestionId: string) => {
     setCurrentIngestionId(ingestionId);
@@ -20,7 +27,14 @@ const Index = () => {
       <div className="absolute inset-0 bg-[radial-gradient(circle_at_80%_20%,_theme(colors.purple.600/20%)_0%,_transparent_50%)] pointer-events-none" />
       
       <div className="relative z-10 container mx-auto px-4 py-8">
+        <ProductionBanner />
+
         {/* Header */}
+        <div className="flex justify-end gap-2 mb-4">
+          <ConnectionHealthIndicator />
+          <EnvironmentSwitcher />
+          <AccountMenu />
+        </div>
         <div className="text-center mb-8">
           <h1 className="text-4xl md:text-5xl font-bold text-white mb-4 bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
             Data Ingestion System
@@ -42,11 +56,18 @@ const Index = () => {
             </Button>
             <Button
               variant={activeView === 'status' ? 'default' : 'ghost'}
-              className={activeView === 'status' ? 'bg-blue-600 hover:bg-blue-700' : 'text-white hover:bg-white/10'}
+              className={`mr-1 ${activeView === 'status' ? 'bg-blue-600 hover:bg-blue-700' : 'text-white hover:bg-white/10'}`}
               onClick={() => setActiveView('status')}
             >
               Track Status
             </Button>
+            <Button
+              variant={activeView === 'schedules' ? 'default' : 'ghost'}
+              className={activeView === 'schedules' ? 'bg-blue-600 hover:bg-blue-700' : 'text-white hover:bg-white/10'}
+              onClick={() => setActiveView('schedules')}
+            >
+              Schedules
+            </Button>
           </div>
         </div>
 
@@ -54,8 +75,15 @@ const Index = () => {
         <div className="max-w-4xl mx-auto">
           {activeView === 'form' ? (
             <IngestionForm onIngestionSubmitted={handleIngestionSubmitted} />
+          ) : activeView === 'schedules' ? (
+            <RecurringSchedules onOpenJob={handleIngestionSubmitted} />
           ) : (
-            <StatusTracker initialIngestionId={currentIngestionId} />
+            // Status from one backend is meaningless on another, so start fresh on switch
+            <StatusTracker
+              key={environment.id}
+              initialIngestionId={currentIngestionId}
+              onTrackIngestion={setCurrentIngestionId}
+            />
           )}
         </div>
       </div>
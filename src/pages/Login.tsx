@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { Link, Navigate, useLocation, useNavigate, type Location } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import EnvironmentSwitcher from '@/components/EnvironmentSwitcher';
+import { useAuth } from '@/hooks/use-auth';
+import { useEnvironment } from '@/hooks/use-environment';
+import { userFromToken, type CredentialKind } from '@/lib/auth';
+import { KeyRound } from 'lucide-react';
+
+const Login = () => {
+  const { environment } = useEnvironment();
+  const { session, needsLogin, signIn } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const from = (location.state as { from?: Location } | null)?.from;
+  const [kind, setKind] = useState<CredentialKind>(environment.auth ?? 'bearer');
+  const [token, setToken] = useState('');
+  const [user, setUser] = useState('');
+
+  if (session) {
+    return <Navigate to={from ?? '/'} replace />;
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = token.trim();
+    if (!trimmed) return;
+    signIn({
+      kind,
+      token: trimmed,
+      user: user.trim() || userFromToken(trimmed) || (kind === 'api_key' ? 'API key' : 'Token user'),
+    });
+    navigate(from ?? '/', { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 flex items-center justify-center px-4">
+      <div className="w-full max-w-md space-y-4">
+        <div className="flex justify-end">
+          <EnvironmentSwitcher />
+        </div>
+        <Card className="bg-white/10 backdrop-blur-md border border-white/20 shadow-2xl">
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-2">
+              <KeyRound className="h-8 w-8 text-blue-400" />
+            </div>
+            <CardTitle className="text-2xl text-white">Sign in to {environment.label}</CardTitle>
+            <CardDescription className="text-slate-300">
+              {environment.baseUrl} requires credentials. They are stored in this browser only.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label className="text-white font-medium">Credential type</Label>
+                <Select value={kind} onValueChange={(value) => setKind(value as CredentialKind)}>
+                  <SelectTrigger className="bg-white/5 border-white/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-700">
+                    <SelectItem value="bearer" className="text-white hover:bg-slate-700">Bearer token</SelectItem>
+                    <SelectItem value="api_key" className="text-white hover:bg-slate-700">API key</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="token" className="text-white font-medium">
+                  {kind === 'bearer' ? 'Token' : 'API key'}
+                </Label>
+                <Input
+                  id="token"
+                  type="password"
+                  autoComplete="off"
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                  className="bg-white/5 border-white/20 text-white placeholder:text-slate-400 focus:border-blue-400 focus:ring-blue-400"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="user" className="text-white font-medium">
+                  Display name <span className="text-slate-400 font-normal">(optional)</span>
+                </Label>
+                <Input
+                  id="user"
+                  placeholder="Taken from the token when possible"
+                  value={user}
+                  onChange={(e) => setUser(e.target.value)}
+                  className="bg-white/5 border-white/20 text-white placeholder:text-slate-400 focus:border-blue-400 focus:ring-blue-400"
+                />
+              </div>
+              <Button
+                type="submit"
+                disabled={!token.trim()}
+                className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold"
+              >
+                Sign in
+              </Button>
+              {!needsLogin && (
+                <p className="text-center text-sm">
+                  <Link to={from ?? '/'} className="text-slate-300 hover:text-white underline">
+                    Continue without signing in
+                  </Link>
+                </p>
+              )}
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Login;
@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  /** JSON array of environment profiles, see src/lib/environments.ts. */
+  readonly VITE_ENVIRONMENTS?: string;
+  readonly VITE_DEFAULT_ENVIRONMENT?: string;
+  /** "true" starts the dashboard on the in-browser simulated backend. */
+  readonly VITE_SIMULATED_BACKEND?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}